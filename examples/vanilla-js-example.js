@@ -1,5 +1,5 @@
 // Vanilla JavaScript Example
-import { VNCClient } from 'react-vnc-lib';
+import { VNCClient, domButtonsToMask } from 'react-vnc-lib';
 
 // Create VNC client instance
 const client = new VNCClient({
@@ -101,7 +101,7 @@ if (canvas) {
       client.sendPointerEvent({
         x: event.clientX - rect.left,
         y: event.clientY - rect.top,
-        buttons: event.buttons
+        buttons: domButtonsToMask(event.buttons)
       });
     }
   });
@@ -112,7 +112,7 @@ if (canvas) {
       client.sendPointerEvent({
         x: event.clientX - rect.left,
         y: event.clientY - rect.top,
-        buttons: event.buttons
+        buttons: domButtonsToMask(event.buttons)
       });
     }
   });
@@ -123,7 +123,8 @@ if (canvas) {
       client.sendPointerEvent({
         x: event.clientX - rect.left,
         y: event.clientY - rect.top,
-        buttons: 0
+        // Other buttons may still be held
+        buttons: domButtonsToMask(event.buttons)
       });
     }
   });
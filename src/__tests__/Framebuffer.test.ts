@@ -0,0 +1,115 @@
+import { VNCFramebuffer } from '../core/Framebuffer';
+import { VNCPixelConverter } from '../core/PixelConverter';
+import { VNCColourMap } from '../core/ColourMap';
+import { VNCProtocolUtils } from '../utils/protocol';
+
+function pixelAt(framebuffer: VNCFramebuffer, x: number, y: number): number[] {
+  const offset = (y * framebuffer.width + x) * 4;
+  return Array.from(framebuffer.data.slice(offset, offset + 4));
+}
+
+describe('VNCFramebuffer', () => {
+  it('should start opaque black', () => {
+    const framebuffer = new VNCFramebuffer(2, 2);
+    expect(pixelAt(framebuffer, 1, 1)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should clip fills to its bounds', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    framebuffer.fillRect(2, 2, 10, 10, 0x112233);
+
+    expect(pixelAt(framebuffer, 3, 3)).toEqual([0x11, 0x22, 0x33, 255]);
+    expect(pixelAt(framebuffer, 1, 1)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should copy overlapping rectangles without smearing', () => {
+    const framebuffer = new VNCFramebuffer(3, 3);
+    framebuffer.fillRect(0, 0, 1, 1, 0x000001);
+    framebuffer.fillRect(0, 1, 1, 1, 0x000002);
+    framebuffer.copyRect(0, 0, 1, 1, 2, 2);
+
+    expect(pixelAt(framebuffer, 1, 1)).toEqual([0, 0, 1, 255]);
+    expect(pixelAt(framebuffer, 1, 2)).toEqual([0, 0, 2, 255]);
+    expect(pixelAt(framebuffer, 0, 1)).toEqual([0, 0, 2, 255]);
+  });
+
+  it('should clip copies that fall outside its bounds', () => {
+    const framebuffer = new VNCFramebuffer(2, 2);
+    framebuffer.fillRect(1, 1, 1, 1, 0xffffff);
+    framebuffer.copyRect(1, 1, 0, 0, 5, 5);
+
+    expect(pixelAt(framebuffer, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(framebuffer, 1, 0)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should keep the overlapping area when resized', () => {
+    const framebuffer = new VNCFramebuffer(2, 2);
+    framebuffer.fillRect(1, 0, 1, 1, 0xff0000);
+    framebuffer.resize(3, 1);
+
+    expect(framebuffer.data.length).toBe(12);
+    expect(pixelAt(framebuffer, 1, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(framebuffer, 2, 0)).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe('VNCPixelConverter', () => {
+  it('should convert the default 32-bit format', () => {
+    const converter = new VNCPixelConverter(VNCProtocolUtils.getDefaultPixelFormat());
+    const rgba = new Uint8Array(4);
+    converter.convert(new Uint8Array([10, 20, 30, 0]), 0, 1, rgba);
+
+    expect(Array.from(rgba)).toEqual([10, 20, 30, 255]);
+  });
+
+  it('should convert 16-bit RGB565 pixels', () => {
+    const converter = new VNCPixelConverter({
+      bitsPerPixel: 16,
+      depth: 16,
+      bigEndian: true,
+      trueColor: true,
+      redMax: 31,
+      greenMax: 63,
+      blueMax: 31,
+      redShift: 11,
+      greenShift: 5,
+      blueShift: 0
+    });
+
+    expect(converter.readRGB(new Uint8Array([0xf8, 0x00]), 0)).toBe(0xff0000);
+    expect(converter.readRGB(new Uint8Array([0x07, 0xe0]), 0)).toBe(0x00ff00);
+    expect(converter.readRGB(new Uint8Array([0x00, 0x1f]), 0)).toBe(0x0000ff);
+  });
+
+  it('should look up indexed pixels in the colour map', () => {
+    const colourMap = new VNCColourMap();
+    const converter = new VNCPixelConverter({
+      bitsPerPixel: 8,
+      depth: 8,
+      bigEndian: false,
+      trueColor: false,
+      redMax: 0,
+      greenMax: 0,
+      blueMax: 0,
+      redShift: 0,
+      greenShift: 0,
+      blueShift: 0
+    }, colourMap);
+    colourMap.set(254, [0x123456, 0xabcdef]);
+
+    const rgba = new Uint8Array(8);
+    converter.convert(new Uint8Array([255, 3]), 0, 2, rgba);
+    expect(Array.from(rgba)).toEqual([0xab, 0xcd, 0xef, 255, 0, 0, 0, 255]);
+  });
+});
+
+describe('VNCColourMap', () => {
+  it('should grow for 16-bit indexed formats', () => {
+    const colourMap = new VNCColourMap();
+    colourMap.set(1000, [0xff00ff]);
+
+    expect(colourMap.size).toBeGreaterThan(1000);
+    expect(colourMap.get(1000)).toBe(0xff00ff);
+    expect(colourMap.get(70000)).toBe(0);
+  });
+});
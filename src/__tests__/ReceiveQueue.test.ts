@@ -0,0 +1,58 @@
+import { VNCReceiveQueue } from '../core/ReceiveQueue';
+
+describe('VNCReceiveQueue', () => {
+  let queue: VNCReceiveQueue;
+
+  beforeEach(() => {
+    queue = new VNCReceiveQueue(8);
+  });
+
+  it('should read big endian integers across pushed chunks', () => {
+    queue.push(new Uint8Array([0x12]));
+    queue.push(new Uint8Array([0x34, 0xde, 0xad]));
+    queue.push(new Uint8Array([0xbe, 0xef, 0xff]));
+
+    expect(queue.length).toBe(7);
+    expect(queue.readUint16()).toBe(0x1234);
+    expect(queue.readUint32()).toBe(0xdeadbeef);
+    expect(queue.readUint8()).toBe(0xff);
+    expect(queue.length).toBe(0);
+  });
+
+  it('should read signed int32 values', () => {
+    queue.push(new Uint8Array([0xff, 0xff, 0xff, 0x11]));
+    expect(queue.readInt32()).toBe(-239);
+  });
+
+  it('should rewind to the marked position', () => {
+    queue.push(new Uint8Array([1, 2, 3, 4]));
+    queue.readUint8();
+    queue.mark();
+    queue.readUint16();
+    queue.rewind();
+
+    expect(queue.length).toBe(3);
+    expect(queue.readUint8()).toBe(2);
+  });
+
+  it('should grow beyond its initial size and keep unread data', () => {
+    queue.push(new Uint8Array([1, 2, 3, 4, 5, 6]));
+    queue.skip(4);
+    queue.push(new Uint8Array(20).fill(9));
+
+    expect(queue.length).toBe(22);
+    expect(queue.readUint16()).toBe(0x0506);
+    expect(Array.from(queue.readBytes(20))).toEqual(new Array(20).fill(9));
+  });
+
+  it('should report whether enough data is available', () => {
+    queue.push(new Uint8Array([1, 2]));
+    expect(queue.has(2)).toBe(true);
+    expect(queue.has(3)).toBe(false);
+  });
+
+  it('should throw when reading past the available data', () => {
+    queue.push(new Uint8Array([1]));
+    expect(() => queue.readUint16()).toThrow('Receive queue underrun');
+  });
+});
@@ -1,5 +1,8 @@
+import * as zlib from 'zlib';
 import { VNCClient } from '../core/VNCClient';
-import { VNCProtocolUtils } from '../utils/protocol';
+import { VNCClipboardFlag, VNCEncoding, VNCProtocolUtils } from '../utils/protocol';
+import { VNCClientOptions, VNCDecodedImage } from '../types/vnc';
+import { VNCPixelConverter } from '../core/PixelConverter';
 
 // Mock WebSocket
 global.WebSocket = jest.fn(() => ({
@@ -10,6 +13,158 @@ global.WebSocket = jest.fn(() => ({
   addEventListener: jest.fn(),
   removeEventListener: jest.fn(),
 })) as any;
+(global.WebSocket as any).OPEN = 1;
+
+/** 32-bit little endian true colour pixel format, as sent in ServerInit */
+const TRUE_COLOUR_32 = [32, 24, 0, 1, 0, 255, 0, 255, 0, 255, 16, 8, 0, 0, 0, 0];
+
+/** 8-bit indexed pixel format */
+const INDEXED_8 = [8, 8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+/**
+ * Build a ServerInit message, by default with a 32-bit little endian true colour format
+ */
+function createServerInit(width: number, height: number, name: string, pixelFormat: number[] = TRUE_COLOUR_32): Uint8Array {
+  const nameBytes = new TextEncoder().encode(name);
+  const data = new Uint8Array(24 + nameBytes.length);
+  const view = new DataView(data.buffer);
+  view.setUint16(0, width);
+  view.setUint16(2, height);
+  data.set(pixelFormat, 4);
+  view.setUint32(20, nameBytes.length);
+  data.set(nameBytes, 24);
+  return data;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Server side of a "None" security handshake followed by ServerInit
+ */
+function createHandshake(width: number = 4, height: number = 2, pixelFormat?: number[]): Uint8Array {
+  return concat(
+    new TextEncoder().encode('RFB 003.008\n'),
+    new Uint8Array([1, 1]), // one security type: None
+    new Uint8Array([0, 0, 0, 0]), // SecurityResult OK
+    createServerInit(width, height, 'test-desktop', pixelFormat)
+  );
+}
+
+function feed(client: VNCClient, data: Uint8Array, chunkSize: number = data.length): void {
+  for (let i = 0; i < data.length; i += chunkSize) {
+    (client as any).handleServerMessage(data.slice(i, i + chunkSize).buffer);
+  }
+}
+
+/** Mocked sockets of clients from connectedClient, kept past disconnect */
+const sockets = new WeakMap<VNCClient, { send: jest.Mock }>();
+const connectedClients: VNCClient[] = [];
+
+afterEach(() => {
+  connectedClients.splice(0).forEach(client => client.disconnect());
+});
+
+/**
+ * A client that has completed the handshake with a mocked server. It is
+ * disconnected after the test.
+ */
+function connectedClient(options: Partial<VNCClientOptions> = {}, handshake: Uint8Array = createHandshake()): VNCClient {
+  const client = new VNCClient({ url: 'ws://localhost:6080', ...options });
+  client.connect().catch(() => undefined);
+  sockets.set(client, (client as any).ws);
+  connectedClients.push(client);
+  feed(client, handshake);
+  return client;
+}
+
+/** A message the client sent, with the fields of its type decoded */
+interface SentMessage {
+  type: number;
+  bytes: Uint8Array;
+  down?: boolean;
+  keysym?: number;
+  keycode?: number;
+  buttons?: number;
+  incremental?: boolean;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  bitsPerPixel?: number;
+  depth?: number;
+  greenMax?: number;
+  encodings?: number[];
+  screens?: Array<{ id: number; width: number; height: number }>;
+  flags?: number;
+  payload?: Uint8Array;
+}
+
+function decodeClientMessage(bytes: Uint8Array): SentMessage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = bytes[0];
+
+  switch (type) {
+    case 0: // SetPixelFormat
+      return { type, bytes, bitsPerPixel: bytes[4], depth: bytes[5], greenMax: view.getUint16(10) };
+    case 2: // SetEncodings
+      return { type, bytes, encodings: Array.from({ length: view.getUint16(2) }, (_, i) => view.getInt32(4 + i * 4)) };
+    case 3: // FramebufferUpdateRequest
+      return {
+        type,
+        bytes,
+        incremental: bytes[1] === 1,
+        x: view.getUint16(2),
+        y: view.getUint16(4),
+        width: view.getUint16(6),
+        height: view.getUint16(8)
+      };
+    case 4: // KeyEvent
+      return { type, bytes, down: bytes[1] === 1, keysym: view.getUint32(4) };
+    case 5: // PointerEvent
+      return { type, bytes, buttons: bytes[1], x: view.getUint16(2), y: view.getUint16(4) };
+    case 6: { // ClientCutText, extended when the length is negative
+      const length = view.getInt32(4);
+      if (length >= 0) return { type, bytes, payload: bytes.slice(8) };
+      return { type, bytes, flags: view.getUint32(8), payload: bytes.slice(12, 8 - length) };
+    }
+    case 251: // SetDesktopSize
+      return {
+        type,
+        bytes,
+        width: view.getUint16(2),
+        height: view.getUint16(4),
+        screens: Array.from({ length: bytes[6] }, (_, i) => ({
+          id: view.getUint32(8 + i * 16),
+          width: view.getUint16(16 + i * 16),
+          height: view.getUint16(18 + i * 16)
+        }))
+      };
+    case 255: // QEMU Extended Key Event
+      return { type, bytes, down: view.getUint16(2) === 1, keysym: view.getUint32(4), keycode: view.getUint32(8) };
+    default:
+      // Handshake replies
+      return { type, bytes };
+  }
+}
+
+/**
+ * Decode everything a client from connectedClient has sent, optionally only
+ * messages of one type
+ */
+function sentMessages(client: VNCClient, type?: number): SentMessage[] {
+  const send = sockets.get(client)!.send;
+  return send.mock.calls
+    .map(([data]) => decodeClientMessage(new Uint8Array(data)))
+    .filter(message => type === undefined || message.type === type);
+}
 
 describe('VNCClient', () => {
   let client: VNCClient;
@@ -79,7 +234,585 @@ describe('VNCClient', () => {
     });
   });
 
+  describe('message framing', () => {
+    beforeEach(() => {
+      client.connect().catch(() => undefined);
+    });
+
+    it('should complete the handshake when frames split messages', () => {
+      const connected = jest.fn();
+      client.on('connected', connected);
+
+      feed(client, createHandshake(), 1);
+
+      expect(connected).toHaveBeenCalledTimes(1);
+      expect(client.getState()).toMatchObject({
+        connected: true,
+        serverName: 'test-desktop',
+        width: 4,
+        height: 2
+      });
+    });
+
+    it('should complete the handshake when one frame holds several messages', () => {
+      const connected = jest.fn();
+      client.on('connected', connected);
+
+      feed(client, createHandshake());
+
+      expect(connected).toHaveBeenCalledTimes(1);
+    });
+
+    it('should parse several server messages in one frame', () => {
+      const error = jest.fn();
+      const bell = jest.fn();
+      client.on('error', error);
+      client.on('bell', bell);
+      feed(client, createHandshake(2, 1));
+
+      const update = concat(
+        new Uint8Array([2]), // Bell
+        new Uint8Array([0, 0, 0, 1]), // FramebufferUpdate with one rectangle
+        new Uint8Array([0, 0, 0, 0, 0, 2, 0, 1, 0, 0, 0, 0]), // 2x1 Raw
+        new Uint8Array(8),
+        new Uint8Array([3, 0, 0, 0, 0, 0, 0, 2, 104, 105]) // ServerCutText "hi"
+      );
+      feed(client, update, 5);
+
+      expect(error).not.toHaveBeenCalled();
+      expect(bell).toHaveBeenCalledTimes(1);
+      expect((client as any).receiveQueue.length).toBe(0);
+    });
+  });
+
+  describe('encoding negotiation', () => {
+    const sentEncodings = (target: VNCClient) => sentMessages(target, 2)[0].encodings!;
+    const imageDecoder = () => ({ width: 0, height: 0, data: new Uint8Array(0) });
+
+    it('should send SetEncodings with quality and compression after ServerInit', () => {
+      const encodings = sentEncodings(connectedClient({ quality: 0, compression: 9, imageDecoder }));
+
+      const defaults = VNCProtocolUtils.getDefaultEncodings();
+      expect(encodings.slice(0, defaults.length)).toEqual(defaults);
+      expect(encodings).toContain(VNCEncoding.QualityLevel0);
+      expect(encodings).toContain(VNCEncoding.CompressLevel0 + 9);
+    });
+
+    it('should not request JPEG quality or TightPNG without an image decoder', () => {
+      const encodings = sentEncodings(connectedClient());
+
+      expect(encodings.filter(e => e >= VNCEncoding.QualityLevel0 && e < VNCEncoding.QualityLevel0 + 10)).toEqual([]);
+      expect(encodings).not.toContain(VNCEncoding.TightPNG);
+      expect(encodings).toContain(VNCEncoding.Tight);
+    });
+
+    it('should advertise TightPNG ahead of Tight when preferred', () => {
+      const encodings = sentEncodings(connectedClient({ preferTightPNG: true, imageDecoder }));
+
+      expect(encodings.indexOf(VNCEncoding.TightPNG)).toBe(encodings.indexOf(VNCEncoding.Tight) - 1);
+      expect(encodings.filter(e => e === VNCEncoding.TightPNG)).toHaveLength(1);
+    });
+
+    it('should request the cursor shape unless localCursor is off', () => {
+      expect(sentEncodings(connectedClient({ localCursor: false }))).not.toContain(VNCEncoding.Cursor);
+      expect(sentEncodings(connectedClient())).toContain(VNCEncoding.Cursor);
+    });
+
+    it('should follow the encodings option and skip unsupported entries', () => {
+      const encodings = sentEncodings(connectedClient({ encodings: [9999, VNCEncoding.Raw] }));
+
+      expect(encodings).not.toContain(9999);
+      expect(encodings[0]).toBe(VNCEncoding.Raw);
+    });
+  });
+
+  describe('framebuffer updates', () => {
+    beforeEach(() => {
+      client = connectedClient();
+    });
+
+    it('should create a framebuffer sized from ServerInit', () => {
+      const framebuffer = client.getFramebuffer();
+      expect(framebuffer?.width).toBe(4);
+      expect(framebuffer?.height).toBe(2);
+    });
+
+    it('should decode Raw rectangles and report them as dirty', () => {
+      const handler = jest.fn();
+      client.on('framebuffer-update', handler);
+
+      // 2x1 Raw rectangle at (1, 1): red then blue, in the client's RGBX format
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 1, 0, 1, 0, 2, 0, 1, 0, 0, 0, 0]),
+        new Uint8Array([255, 0, 0, 0, 0, 0, 255, 0])
+      ), 3);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].data.rectangles).toEqual([
+        { x: 1, y: 1, width: 2, height: 1 }
+      ]);
+
+      const data = client.getFramebuffer()!.data;
+      expect(Array.from(data.slice(20, 28))).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+    });
+
+    it('should apply CopyRect within the framebuffer', () => {
+      const handler = jest.fn();
+      client.on('framebuffer-update', handler);
+      client.getFramebuffer()!.fillRect(0, 0, 1, 1, 0x00ff00);
+
+      // Copy (0, 0) 1x1 to (3, 1)
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 3, 0, 1, 0, 1, 0, 1, 0, 0, 0, 1]),
+        new Uint8Array([0, 0, 0, 0])
+      ));
+
+      expect(handler.mock.calls[0][0].data.rectangles).toEqual([
+        { x: 3, y: 1, width: 1, height: 1 }
+      ]);
+      expect(Array.from(client.getFramebuffer()!.data.slice(28, 32))).toEqual([0, 255, 0, 255]);
+    });
+
+    it('should request an incremental update after each update', () => {
+      const sentBefore = sentMessages(client).length;
+
+      feed(client, new Uint8Array([0, 0, 0, 0]));
+
+      const sent = sentMessages(client).slice(sentBefore);
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({ type: 3, incremental: true });
+    });
+
+    it('should end an update early on a LastRect rectangle', () => {
+      const handler = jest.fn();
+      client.on('framebuffer-update', handler);
+
+      feed(client, concat(
+        new Uint8Array([0, 0, 0xff, 0xff]),
+        new Uint8Array([0, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 0]),
+        new Uint8Array([0, 0, 0, 0]),
+        new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0x20])
+      ));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect((client as any).updateRectsRemaining).toBe(0);
+    });
+
+    it('should hold later rectangles until an image has been decoded', async () => {
+      let finishDecode: () => void = () => undefined;
+      const imageDecoder = jest.fn(() => new Promise<VNCDecodedImage>(resolve => {
+        finishDecode = () => resolve({ width: 1, height: 1, data: new Uint8Array([0, 255, 0, 255]) });
+      }));
+      const configured = connectedClient({ imageDecoder });
+      const handler = jest.fn();
+      configured.on('framebuffer-update', handler);
+
+      // TightPNG PNG rectangle at (0, 0), then a Raw rectangle over the same pixel
+      feed(configured, concat(
+        new Uint8Array([0, 0, 0, 2]),
+        new Uint8Array([0, 0, 0, 0, 0, 1, 0, 1, 0xff, 0xff, 0xfe, 0xfc]),
+        new Uint8Array([0xa0, 2, 0x89, 0x50]),
+        new Uint8Array([0, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 0]),
+        new Uint8Array([255, 0, 0, 0])
+      ));
+
+      expect(imageDecoder).toHaveBeenCalledWith(new Uint8Array([0x89, 0x50]), 'image/png');
+      expect(handler).not.toHaveBeenCalled();
+
+      finishDecode();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(Array.from(configured.getFramebuffer()!.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should emit cursor shapes without touching the framebuffer', () => {
+      const cursorHandler = jest.fn();
+      const updateHandler = jest.fn();
+      client.on('cursor', cursorHandler);
+      client.on('framebuffer-update', updateHandler);
+
+      // 2x1 cursor with hotspot (1, 0): red (opaque) then blue (transparent)
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 1, 0, 0, 0, 2, 0, 1, 0xff, 0xff, 0xff, 0x11]),
+        new Uint8Array([255, 0, 0, 0, 0, 0, 255, 0]),
+        new Uint8Array([0x80])
+      ), 5);
+
+      expect(updateHandler).not.toHaveBeenCalled();
+      expect(cursorHandler).toHaveBeenCalledTimes(1);
+      const cursor = cursorHandler.mock.calls[0][0].data;
+      expect(cursor).toMatchObject({ width: 2, height: 1, hotspotX: 1, hotspotY: 0 });
+      expect(Array.from(cursor.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 0]);
+    });
+
+    it('should resize on a DesktopSize rectangle', () => {
+      const resizeHandler = jest.fn();
+      const updateHandler = jest.fn();
+      client.on('resize', resizeHandler);
+      client.on('framebuffer-update', updateHandler);
+      client.getFramebuffer()!.fillRect(0, 0, 1, 1, 0x00ff00);
+
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 0, 0, 0, 0, 8, 0, 6, 0xff, 0xff, 0xff, 0x21])
+      ));
+
+      expect(resizeHandler).toHaveBeenCalledTimes(1);
+      expect(resizeHandler.mock.calls[0][0].data).toMatchObject({ width: 8, height: 6 });
+      expect(client.getState()).toMatchObject({ width: 8, height: 6 });
+
+      const framebuffer = client.getFramebuffer()!;
+      expect([framebuffer.width, framebuffer.height]).toEqual([8, 6]);
+      expect(Array.from(framebuffer.data.slice(0, 4))).toEqual([0, 255, 0, 255]);
+      expect(updateHandler.mock.calls[0][0].data.rectangles).toEqual([
+        { x: 0, y: 0, width: 8, height: 6 }
+      ]);
+
+      // Follow-up requests cover the new size
+      expect(sentMessages(client, 3).pop()).toMatchObject({ width: 8, height: 6 });
+    });
+
+    it('should resize on an ExtendedDesktopSize rectangle and report screens', () => {
+      const resizeHandler = jest.fn();
+      client.on('resize', resizeHandler);
+
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 0, 0, 0, 0, 16, 0, 9, 0xff, 0xff, 0xfe, 0xcc]),
+        new Uint8Array([1, 0, 0, 0]),
+        new Uint8Array([0, 0, 0, 7, 0, 0, 0, 0, 0, 16, 0, 9, 0, 0, 0, 0])
+      ), 7);
+
+      expect(client.getState()).toMatchObject({ width: 16, height: 9 });
+      expect(resizeHandler.mock.calls[0][0].data.screens).toEqual([
+        { id: 7, x: 0, y: 0, width: 16, height: 9, flags: 0 }
+      ]);
+    });
+
+    it('should ignore ExtendedDesktopSize rectangles reporting an error', () => {
+      const resizeHandler = jest.fn();
+      client.on('resize', resizeHandler);
+
+      // Reason 1 (client request), status 3 (invalid layout)
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 1, 0, 3, 0, 16, 0, 9, 0xff, 0xff, 0xfe, 0xcc]),
+        new Uint8Array([0, 0, 0, 0])
+      ));
+
+      expect(resizeHandler).not.toHaveBeenCalled();
+      expect(client.getState()).toMatchObject({ width: 4, height: 2 });
+    });
+
+    it('should send scancodes once the server acknowledges QEMU Extended Key Events', () => {
+      client.sendKeyEvent({ key: 'a', code: 'KeyA', down: true });
+      expect(sentMessages(client).pop()!.type).toBe(4);
+
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, 0xfe, 0xfe])
+      ));
+
+      client.sendKeyEvent({ key: 'q', code: 'KeyA', down: true });
+      client.sendKeyEvent({ key: 'Control', code: 'ControlRight', down: false });
+      client.sendKeyEvent({ key: 'Dead', code: 'BracketLeft', down: true });
+
+      const keys = sentMessages(client).slice(-3).map(({ type, down, keysym, keycode }) => [type, down, keysym, keycode]);
+      expect(keys).toEqual([
+        [255, true, 0x71, 0x1e],
+        [255, false, 0xffe4, 0x9d],
+        [255, true, 0, 0x1a]
+      ]);
+    });
+
+    describe('requestDesktopSize', () => {
+      const extendedDesktopSize = (reason: number, status: number, width: number, height: number) => concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, reason, 0, status, width >> 8, width & 0xff, height >> 8, height & 0xff, 0xff, 0xff, 0xfe, 0xcc]),
+        new Uint8Array([1, 0, 0, 0]),
+        new Uint8Array([0, 0, 0, 7, 0, 0, 0, 0, width >> 8, width & 0xff, height >> 8, height & 0xff, 0, 0, 0, 0])
+      );
+
+      it('should not send SetDesktopSize until the server supports it', () => {
+        expect(client.requestDesktopSize(8, 6)).toBe(false);
+      });
+
+      it('should send SetDesktopSize keeping the current screen id', () => {
+        feed(client, extendedDesktopSize(0, 0, 4, 2));
+
+        expect(client.requestDesktopSize(800.6, 600)).toBe(true);
+        expect(sentMessages(client).pop()).toMatchObject({
+          type: 251,
+          width: 800,
+          height: 600,
+          screens: [{ id: 7, width: 800, height: 600 }]
+        });
+
+        // Nothing to do for the current size
+        expect(client.requestDesktopSize(4, 2)).toBe(false);
+      });
+
+      it('should report the outcome of a resize request', () => {
+        const handler = jest.fn();
+        client.on('desktop-size', handler);
+        feed(client, extendedDesktopSize(0, 0, 4, 2));
+        expect(handler).not.toHaveBeenCalled();
+
+        feed(client, extendedDesktopSize(1, 0, 8, 6));
+        expect(handler.mock.calls[0][0].data).toEqual({ success: true, status: 0, width: 8, height: 6 });
+
+        feed(client, extendedDesktopSize(1, 1, 16, 12));
+        expect(handler.mock.calls[1][0].data).toEqual({
+          success: false,
+          status: 1,
+          width: 8,
+          height: 6,
+          message: 'Resize is administratively prohibited'
+        });
+        expect(client.getState()).toMatchObject({ width: 8, height: 6 });
+      });
+    });
+
+    it('should report unsupported encodings as protocol errors', () => {
+      const error = jest.fn();
+      client.on('error', error);
+
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0x12, 0x34])
+      ));
+
+      expect(error.mock.calls[0][0].data.message).toContain('Unsupported encoding');
+    });
+
+    it('should close the connection after a protocol error', () => {
+      const ws = (client as any).ws;
+      const bell = jest.fn();
+      client.on('bell', bell);
+
+      // Two rectangles, the first in an unknown encoding, then a Bell
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 2]),
+        new Uint8Array([0, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0x12, 0x34]),
+        new Uint8Array([2])
+      ));
+
+      expect(ws.close).toHaveBeenCalled();
+      expect(client.getState()).toMatchObject({ connected: false, error: expect.stringContaining('Unsupported encoding') });
+      expect((client as any).updateRectsRemaining).toBe(0);
+      expect(bell).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pixel format', () => {
+    it('should send SetPixelFormat before SetEncodings and the first update request', () => {
+      client = connectedClient();
+
+      // SetPixelFormat, SetEncodings, FramebufferUpdateRequest
+      expect(sentMessages(client).slice(-3).map(message => message.type)).toEqual([0, 2, 3]);
+    });
+
+    it('should decode updates in a 16-bit preset', () => {
+      client = connectedClient({ pixelFormat: 'high-color-16' }, createHandshake(2, 1));
+
+      expect(sentMessages(client, 0)[0]).toMatchObject({ bitsPerPixel: 16, depth: 16, greenMax: 63 });
+
+      // 2x1 Raw in little endian RGB565: red, green
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 0, 0, 0, 0, 2, 0, 1, 0, 0, 0, 0]),
+        new Uint8Array([0x00, 0xf8, 0xe0, 0x07])
+      ));
+
+      expect(Array.from(client.getFramebuffer()!.data)).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+    });
+
+    it('should reject pixel formats it cannot decode', () => {
+      expect(() => new VNCClient({
+        url: 'ws://localhost:6080',
+        pixelFormat: { ...VNCProtocolUtils.getDefaultPixelFormat(), bitsPerPixel: 24 }
+      })).toThrow('Unsupported pixel format');
+    });
+  });
+
+  describe('colour map', () => {
+    it('should decode indexed pixels through SetColourMapEntries', () => {
+      client = connectedClient({
+        pixelFormat: {
+          bitsPerPixel: 8,
+          depth: 8,
+          bigEndian: false,
+          trueColor: false,
+          redMax: 0,
+          greenMax: 0,
+          blueMax: 0,
+          redShift: 0,
+          greenShift: 0,
+          blueShift: 0
+        }
+      }, createHandshake(3, 1, INDEXED_8));
+
+      // Entries 1 and 2: red and 50% grey, as 16-bit components
+      feed(client, concat(
+        new Uint8Array([1, 0, 0, 1, 0, 2]),
+        new Uint8Array([0xff, 0xff, 0, 0, 0, 0]),
+        new Uint8Array([0x80, 0x00, 0x80, 0x00, 0x80, 0x00])
+      ), 4);
+
+      // 3x1 Raw rectangle of indices 1, 2, 0
+      feed(client, concat(
+        new Uint8Array([0, 0, 0, 1]),
+        new Uint8Array([0, 0, 0, 0, 0, 3, 0, 1, 0, 0, 0, 0]),
+        new Uint8Array([1, 2, 0])
+      ));
+
+      expect(Array.from(client.getFramebuffer()!.data)).toEqual([
+        255, 0, 0, 255,
+        128, 128, 128, 255,
+        0, 0, 0, 255
+      ]);
+    });
+  });
+
+  describe('clipboard', () => {
+    beforeEach(() => {
+      client = connectedClient();
+    });
+
+    it('should emit ServerCutText as Latin-1 text', () => {
+      const handler = jest.fn();
+      client.on('server-cut-text', handler);
+
+      feed(client, new Uint8Array([3, 0, 0, 0, 0, 0, 0, 4, 0x63, 0x61, 0xe9, 0x80]), 5);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].data).toEqual({ text: 'ca\u00e9\u0080' });
+    });
+
+    it('should discard oversized ServerCutText as it arrives', () => {
+      const handler = jest.fn();
+      const bell = jest.fn();
+      client.on('server-cut-text', handler);
+      client.on('bell', bell);
+
+      // Just over the 10 MiB limit, followed by a Bell
+      const length = 10 * 1024 * 1024 + 1;
+      feed(client, new Uint8Array([3, 0, 0, 0, length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]));
+      feed(client, new Uint8Array(length - 1), 1024 * 1024);
+      expect((client as any).receiveQueue.length).toBe(0);
+
+      feed(client, new Uint8Array([0, 2]));
+      expect(handler).not.toHaveBeenCalled();
+      expect(bell).toHaveBeenCalledTimes(1);
+      expect(client.getState().connected).toBe(true);
+    });
+
+    it('should send ClientCutText for sendClipboard', () => {
+      client.sendClipboard('caf\u00e9\r\n\u20ac');
+
+      const message = sentMessages(client).pop()!;
+      expect(Array.from(message.bytes)).toEqual([6, 0, 0, 0, 0, 0, 0, 6, 0x63, 0x61, 0x66, 0xe9, 0x0a, 0x3f]);
+    });
+  });
+
+  describe('extended clipboard', () => {
+    const { Caps, Request, Peek, Notify, Provide, Text } = VNCClipboardFlag;
+
+    /** Extended ServerCutText: negative length, then flags and payload */
+    function serverClipboard(flags: number, payload: Uint8Array = new Uint8Array(0)): Uint8Array {
+      const message = new Uint8Array(12 + payload.length);
+      const view = new DataView(message.buffer);
+      view.setUint8(0, 3);
+      view.setInt32(4, -(4 + payload.length));
+      view.setUint32(8, flags >>> 0);
+      message.set(payload, 12);
+      return message;
+    }
+
+    function sizes(...values: number[]): Uint8Array {
+      const data = new Uint8Array(values.length * 4);
+      values.forEach((value, i) => new DataView(data.buffer).setUint32(i * 4, value));
+      return data;
+    }
+
+    const lastClientMessage = () => sentMessages(client, 6).pop()!;
+
+    beforeEach(() => {
+      client = connectedClient();
+    });
+
+    it('should advertise the pseudo-encoding and answer server caps', () => {
+      expect(sentMessages(client, 2)[0].encodings).toContain(VNCEncoding.ExtendedClipboard);
+
+      feed(client, serverClipboard(Caps | Request | Notify | Provide | Text, sizes(1024)));
+
+      const { flags, payload } = lastClientMessage();
+      expect(flags! & Caps).toBeTruthy();
+      expect(flags! & Text).toBeTruthy();
+      expect(payload!.length).toBe(4);
+    });
+
+    it('should notify, then provide zlib-compressed UTF-8 text on request', () => {
+      feed(client, serverClipboard(Caps | Request | Notify | Provide | Text, sizes(1024)));
+
+      client.sendClipboard('h\u00e9llo\nw\u00f6rld \u2603');
+      expect(lastClientMessage().flags).toBe(Notify | Text);
+
+      feed(client, serverClipboard(Request | Text));
+      const { flags, payload } = lastClientMessage();
+      expect(flags).toBe(Provide | Text);
+
+      const data = zlib.inflateSync(payload!);
+      const size = data.readUInt32BE(0);
+      expect(data.subarray(4, 4 + size).toString('utf-8')).toBe('h\u00e9llo\r\nw\u00f6rld \u2603\0');
+    });
+
+    it('should provide directly when the server does not take notifications', () => {
+      feed(client, serverClipboard(Caps | Provide | Text, sizes(1024)));
+
+      client.sendClipboard('\u00fcber');
+      expect(lastClientMessage().flags).toBe(Provide | Text);
+    });
+
+    it('should respect the server text size limit', () => {
+      feed(client, serverClipboard(Caps | Provide | Text, sizes(4)));
+      const sentBefore = sentMessages(client).length;
+
+      client.sendClipboard('too long for the server');
+      expect(sentMessages(client)).toHaveLength(sentBefore);
+    });
+
+    it('should request announced text and emit what the server provides', () => {
+      const handler = jest.fn();
+      client.on('server-cut-text', handler);
+      feed(client, serverClipboard(Caps | Request | Notify | Provide | Text, sizes(1024)));
+
+      feed(client, serverClipboard(Notify | Text));
+      expect(lastClientMessage().flags).toBe(Request | Text);
+
+      const text = Buffer.from('\u65e5\u672c\u8a9e\r\nline\0', 'utf-8');
+      const data = Buffer.concat([Buffer.from(sizes(text.length)), text]);
+      feed(client, serverClipboard(Provide | Text, new Uint8Array(zlib.deflateSync(data))), 7);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].data).toEqual({ text: '\u65e5\u672c\u8a9e\nline' });
+    });
+
+    it('should answer a peek with what it holds', () => {
+      feed(client, serverClipboard(Caps | Request | Peek | Notify | Provide | Text, sizes(1024)));
+      feed(client, serverClipboard(Peek));
+      expect(lastClientMessage().flags).toBe(Notify);
+    });
+  });
+
   describe('input events', () => {
+    const sentKeys = (target: VNCClient) => sentMessages(target, 4).map(({ down, keysym }) => [down, keysym]);
+    const sentPointers = (target: VNCClient) => sentMessages(target, 5).map(({ buttons, x, y }) => [buttons, x, y]);
+
     beforeEach(() => {
       // Mock connected state
       (client as any).setState({ connected: true });
@@ -97,6 +830,85 @@ describe('VNCClient', () => {
       expect(sendMessageSpy).toHaveBeenCalled();
     });
 
+    it('should send keysyms for named keys and skip keys without one', () => {
+      client = connectedClient();
+      client.sendKeyEvent({ key: 'F5', code: 'F5', down: true });
+      client.sendKeyEvent({ key: 'Dead', code: 'Quote', down: true });
+
+      expect(sentKeys(client)).toEqual([[true, 0xffc2]]);
+    });
+
+    describe('held keys', () => {
+      beforeEach(() => {
+        client = connectedClient();
+      });
+
+      it('should release the keysym that was pressed', () => {
+        client.sendKeyEvent({ key: 'a', code: 'KeyA', down: true });
+        client.sendKeyEvent({ key: 'A', code: 'KeyA', down: false });
+
+        expect(sentKeys(client)).toEqual([[true, 0x61], [false, 0x61]]);
+      });
+
+      it('should release all held keys in reverse order', () => {
+        client.sendKeyEvent({ key: 'Control', code: 'ControlLeft', down: true, ctrlKey: true });
+        client.sendKeyEvent({ key: 'Alt', code: 'AltLeft', down: true, ctrlKey: true, altKey: true });
+
+        client.releaseAllKeys();
+        client.releaseAllKeys();
+
+        expect(sentKeys(client).slice(2)).toEqual([[false, 0xffe9], [false, 0xffe3]]);
+      });
+
+      it('should release modifiers that a key event reports as up', () => {
+        client.sendKeyEvent({ key: 'Shift', code: 'ShiftRight', down: true, shiftKey: true });
+        client.sendKeyEvent({ key: 'a', code: 'KeyA', down: true, shiftKey: false });
+
+        expect(sentKeys(client)).toEqual([[true, 0xffe2], [false, 0xffe2], [true, 0x61]]);
+      });
+
+      it('should press a key combination in order and release it in reverse', () => {
+        client.sendCtrlAltDel();
+
+        expect(sentKeys(client)).toEqual([
+          [true, 0xffe3], [true, 0xffe9], [true, 0xffff],
+          [false, 0xffff], [false, 0xffe9], [false, 0xffe3]
+        ]);
+      });
+
+      it('should reject key combinations with unknown keys', () => {
+        expect(() => client.sendKeyCombo(['Control', 'Dead'])).toThrow('No keysym for key: Dead');
+        expect(() => client.sendKeyCombo(['toString'])).toThrow('No keysym for key: toString');
+        expect(sentKeys(client)).toEqual([]);
+      });
+
+      it('should release held keys on window blur and disconnect', () => {
+        client.sendKeyEvent({ key: 'Meta', code: 'MetaLeft', down: true, metaKey: true });
+        window.dispatchEvent(new Event('blur'));
+        expect(sentKeys(client)).toEqual([[true, 0xffeb], [false, 0xffeb]]);
+
+        client.sendKeyEvent({ key: 'Alt', code: 'AltLeft', down: true, altKey: true });
+        client.disconnect();
+        expect(sentKeys(client).slice(2)).toEqual([[true, 0xffe9], [false, 0xffe9]]);
+
+        // Listeners are removed with the connection
+        window.dispatchEvent(new Event('blur'));
+        expect(sentKeys(client)).toHaveLength(4);
+      });
+
+      it('should forget held keys and stop listening when the server closes the connection', () => {
+        const removeListener = jest.spyOn(window, 'removeEventListener');
+        client.sendKeyEvent({ key: 'Meta', code: 'MetaLeft', down: true, metaKey: true });
+
+        (client as any).ws.onclose({ code: 1000, reason: '' });
+
+        expect((client as any).keysDown.size).toBe(0);
+        expect(removeListener).toHaveBeenCalledWith('blur', (client as any).handleWindowBlur);
+        expect(sentKeys(client)).toEqual([[true, 0xffeb]]);
+        removeListener.mockRestore();
+      });
+    });
+
     it('should send pointer events when connected', () => {
       const sendMessageSpy = jest.spyOn(client as any, 'sendMessage');
       
@@ -109,6 +921,72 @@ describe('VNCClient', () => {
       expect(sendMessageSpy).toHaveBeenCalled();
     });
 
+    describe('pointer coalescing', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+        client = connectedClient();
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should merge moves into one per animation frame', () => {
+        client.sendPointerEvent({ x: 1, y: 1, buttons: 0 });
+        client.sendPointerEvent({ x: 2, y: 3, buttons: 0 });
+        expect(sentPointers(client)).toEqual([]);
+
+        jest.advanceTimersByTime(20);
+        expect(sentPointers(client)).toEqual([[0, 2, 3]]);
+      });
+
+      it('should send button changes at once, after the pending move', () => {
+        client.sendPointerEvent({ x: 1, y: 1, buttons: 0 });
+        client.sendPointerEvent({ x: 2, y: 2, buttons: 1 });
+        client.sendPointerEvent({ x: 2, y: 2, buttons: 0 });
+        client.sendPointerEvent({ x: 2, y: 2, buttons: 8 });
+        client.sendPointerEvent({ x: 2, y: 2, buttons: 0 });
+        jest.advanceTimersByTime(20);
+
+        expect(sentPointers(client)).toEqual([
+          [0, 1, 1],
+          [1, 2, 2],
+          [0, 2, 2],
+          [8, 2, 2],
+          [0, 2, 2]
+        ]);
+      });
+
+      it('should send at most one move per interval', () => {
+        const rateLimited = connectedClient({ pointerRateLimit: 100 });
+
+        rateLimited.sendPointerEvent({ x: 1, y: 1, buttons: 0 });
+        rateLimited.sendPointerEvent({ x: 2, y: 2, buttons: 0 });
+        rateLimited.sendPointerEvent({ x: 3, y: 3, buttons: 0 });
+        expect(sentPointers(rateLimited)).toEqual([[0, 1, 1]]);
+
+        jest.advanceTimersByTime(100);
+        expect(sentPointers(rateLimited)).toEqual([[0, 1, 1], [0, 3, 3]]);
+      });
+
+      it('should send every move without a rate limit', () => {
+        const unlimited = connectedClient({ pointerRateLimit: 0 });
+
+        unlimited.sendPointerEvent({ x: 1, y: 1, buttons: 0 });
+        unlimited.sendPointerEvent({ x: 2, y: 2, buttons: 0 });
+
+        expect(sentPointers(unlimited)).toHaveLength(2);
+      });
+
+      it('should drop a pending move on disconnect', () => {
+        client.sendPointerEvent({ x: 1, y: 1, buttons: 0 });
+        client.disconnect();
+        jest.advanceTimersByTime(20);
+
+        expect(sentPointers(client)).toEqual([]);
+      });
+    });
+
     it('should not send events when disconnected', () => {
       (client as any).setState({ connected: false });
       const sendMessageSpy = jest.spyOn(client as any, 'sendMessage');
@@ -139,6 +1017,15 @@ describe('VNCProtocolUtils', () => {
     });
   });
 
+  describe('Latin-1 conversion', () => {
+    it('should round-trip every Latin-1 character', () => {
+      const bytes = new Uint8Array(256).map((_, i) => i);
+      const text = VNCProtocolUtils.latin1Decode(bytes);
+      expect(text.charCodeAt(0x80)).toBe(0x80);
+      expect(VNCProtocolUtils.latin1Encode(text.replace(/\r/g, ''))).toEqual(bytes.filter(b => b !== 0x0d));
+    });
+  });
+
   describe('binary data handling', () => {
     it('should read uint8 from buffer', () => {
       const buffer = new ArrayBuffer(4);
@@ -188,6 +1075,32 @@ describe('VNCProtocolUtils', () => {
       expect(view.getUint8(1)).toBe(1); // incremental
     });
 
+    it('should create set encodings message', () => {
+      const buffer = VNCProtocolUtils.createSetEncodings([VNCEncoding.Raw, VNCEncoding.LastRect]);
+      expect(buffer.byteLength).toBe(12);
+      
+      const view = new DataView(buffer);
+      expect(view.getUint8(0)).toBe(2); // message type
+      expect(view.getUint16(2, false)).toBe(2); // number of encodings
+      expect(view.getInt32(8, false)).toBe(-224);
+    });
+
+    it('should create set desktop size message', () => {
+      const buffer = VNCProtocolUtils.createSetDesktopSize(1024, 768, [
+        { id: 1, x: 0, y: 0, width: 1024, height: 768, flags: 0 }
+      ]);
+      const view = new DataView(buffer);
+
+      expect(buffer.byteLength).toBe(24);
+      expect(view.getUint8(0)).toBe(251);
+      expect(view.getUint16(2)).toBe(1024);
+      expect(view.getUint16(4)).toBe(768);
+      expect(view.getUint8(6)).toBe(1);
+      expect(view.getUint32(8)).toBe(1);
+      expect(view.getUint16(16)).toBe(1024);
+      expect(view.getUint16(18)).toBe(768);
+    });
+
     it('should create key event message', () => {
       const buffer = VNCProtocolUtils.createKeyEvent(true, 65); // 'A'
       expect(buffer.byteLength).toBe(8);
@@ -211,6 +1124,15 @@ describe('VNCProtocolUtils', () => {
   });
 
   describe('pixel format', () => {
+    it('should resolve the BGR233 preset', () => {
+      const format = VNCProtocolUtils.resolvePixelFormat('bgr233-8');
+      const converter = new VNCPixelConverter(format);
+
+      expect(format.bitsPerPixel).toBe(8);
+      expect(converter.readRGB(new Uint8Array([0x07]), 0)).toBe(0xff0000);
+      expect(converter.readRGB(new Uint8Array([0xc0]), 0)).toBe(0x0000ff);
+    });
+
     it('should return default pixel format', () => {
       const pixelFormat = VNCProtocolUtils.getDefaultPixelFormat();
       
@@ -0,0 +1,309 @@
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { VNCViewer } from '../components/VNCViewer';
+import { VNCCursor, VNCEventHandler } from '../types/vnc';
+import { playBeep } from '../utils/bell';
+
+jest.mock('../styles/VNCViewer.css', () => ({}));
+jest.mock('../utils/bell', () => ({ playBeep: jest.fn() }));
+
+// jsdom can't render canvases, so stand in a data URL naming the cursor size
+jest.mock('../utils/cursor', () => {
+  const actual = jest.requireActual('../utils/cursor');
+  const createCursorImage = (cursor: VNCCursor) =>
+    cursor.width > 0 && cursor.height > 0 ? `data:cursor/${cursor.width}x${cursor.height}` : null;
+  return {
+    ...actual,
+    createCursorImage,
+    createCursorStyle: (cursor: VNCCursor, fallback: string = 'default') => {
+      const image = createCursorImage(cursor);
+      return image && `url(${image}) ${cursor.hotspotX} ${cursor.hotspotY}, ${fallback}`;
+    }
+  };
+});
+
+/** Client stand-in that only dispatches events */
+class MockClient {
+  private handlers = new Map<string, Set<VNCEventHandler>>();
+
+  on(event: string, handler: VNCEventHandler): void {
+    if (!this.handlers.has(event)) this.handlers.set(event, new Set());
+    this.handlers.get(event)!.add(handler);
+  }
+
+  off(event: string, handler: VNCEventHandler): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  emit(type: string): void {
+    this.handlers.get(type)?.forEach(handler => handler({ type }));
+  }
+}
+
+const mockVNC = {
+  client: null as MockClient | null,
+  state: { connected: true, connecting: false, error: null, serverName: 'test-desktop', width: 800, height: 600 },
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  sendKeyEvent: jest.fn(),
+  releaseAllKeys: jest.fn(),
+  sendPointerEvent: jest.fn(),
+  requestDesktopSize: jest.fn(),
+  canvasRef: { current: null as HTMLCanvasElement | null },
+  error: null,
+  loading: false,
+  cursor: null as VNCCursor | null
+};
+
+jest.mock('../hooks/useVNC', () => ({
+  useVNC: () => mockVNC
+}));
+
+const { requestDesktopSize, sendKeyEvent, sendPointerEvent } = mockVNC;
+
+/** ResizeObserver stand-in that lets tests report container sizes */
+class MockResizeObserver {
+  static instances: MockResizeObserver[] = [];
+  private callback: ResizeObserverCallback;
+
+  constructor(callback: ResizeObserverCallback) {
+    this.callback = callback;
+    MockResizeObserver.instances.push(this);
+  }
+
+  observe(): void {}
+
+  disconnect(): void {}
+
+  resize(width: number, height: number): void {
+    this.callback([{ contentRect: { width, height } } as ResizeObserverEntry], this as unknown as ResizeObserver);
+  }
+}
+
+describe('VNCViewer', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeAll(() => {
+    (global as any).IS_REACT_ACT_ENVIRONMENT = true;
+    (global as any).ResizeObserver = MockResizeObserver;
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    MockResizeObserver.instances = [];
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    jest.useRealTimers();
+    mockVNC.cursor = null;
+    mockVNC.client = null;
+    delete (document as any).pointerLockElement;
+    delete (document as any).exitPointerLock;
+  });
+
+  const lockPointer = () => {
+    (document as any).exitPointerLock = jest.fn();
+    Object.defineProperty(document, 'pointerLockElement', { value: mockVNC.canvasRef.current, configurable: true });
+    act(() => {
+      document.dispatchEvent(new Event('pointerlockchange'));
+    });
+  };
+
+  describe('resizeSession', () => {
+    it('should request the container size once resizing settles', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" resizeSession />));
+      const observer = MockResizeObserver.instances[0];
+
+      observer.resize(640, 480);
+      jest.advanceTimersByTime(300);
+      observer.resize(1026, 770);
+      jest.advanceTimersByTime(499);
+      expect(requestDesktopSize).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(requestDesktopSize).toHaveBeenCalledTimes(1);
+      expect(requestDesktopSize).toHaveBeenCalledWith(1024, 768);
+    });
+
+    it('should request the desktop size that fills the container at the viewer scale', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" resizeSession scale={0.5} />));
+
+      MockResizeObserver.instances[0].resize(801, 601);
+      jest.advanceTimersByTime(500);
+
+      expect(requestDesktopSize).toHaveBeenCalledWith(1598, 1198);
+    });
+  });
+
+  describe('pointerLock', () => {
+    const key = (type: string, code: string) => {
+      act(() => {
+        mockVNC.canvasRef.current!.dispatchEvent(new KeyboardEvent(type, { key: code, code, bubbles: true }));
+      });
+    };
+
+    it('should send neither half of the Escape that releases the lock', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" pointerLock />));
+      lockPointer();
+
+      key('keydown', 'Escape');
+      Object.defineProperty(document, 'pointerLockElement', { value: null, configurable: true });
+      act(() => {
+        document.dispatchEvent(new Event('pointerlockchange'));
+      });
+      key('keyup', 'Escape');
+
+      expect(document.exitPointerLock).toHaveBeenCalled();
+      expect(sendKeyEvent).not.toHaveBeenCalled();
+
+      key('keydown', 'Escape');
+      key('keyup', 'Escape');
+      expect(sendKeyEvent.mock.calls.map(([event]) => [event.code, event.down])).toEqual([
+        ['Escape', true],
+        ['Escape', false]
+      ]);
+    });
+
+    it('should handle the browser refusing the lock', async () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" pointerLock />));
+      const canvas = mockVNC.canvasRef.current!;
+      canvas.requestPointerLock = jest.fn(() => Promise.reject(new Error('Pointer lock denied')));
+
+      act(() => {
+        canvas.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+      });
+      // Let an unhandled rejection surface before the test ends
+      await new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+      expect(canvas.requestPointerLock).toHaveBeenCalled();
+      expect(sendPointerEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('touch gestures', () => {
+    // jsdom has no PointerEvent, so give mouse events the pointer fields
+    const touch = (type: string, x: number, y: number) => {
+      const event = new MouseEvent(type, { clientX: x, clientY: y, bubbles: true, cancelable: true });
+      Object.defineProperties(event, { pointerType: { value: 'touch' }, pointerId: { value: 1 } });
+      act(() => {
+        mockVNC.canvasRef.current!.dispatchEvent(event);
+      });
+    };
+
+    it('should click the left button where the canvas is tapped', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" scale={2} />));
+
+      touch('pointerdown', 21, 11);
+      touch('pointerup', 22, 11);
+
+      expect(sendPointerEvent.mock.calls.map(([event]) => event)).toEqual([
+        { x: 21, y: 11, buttons: 1 },
+        { x: 21, y: 11, buttons: 0 }
+      ]);
+    });
+
+    it('should hold the left button while dragging', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" />));
+
+      touch('pointerdown', 10, 10);
+      touch('pointermove', 40, 10);
+      touch('pointerup', 50, 20);
+
+      expect(sendPointerEvent.mock.calls.map(([event]) => event)).toEqual([
+        { x: 10.5, y: 10.5, buttons: 1 },
+        { x: 40.5, y: 10.5, buttons: 1 },
+        { x: 50.5, y: 20.5, buttons: 0 }
+      ]);
+    });
+  });
+
+  describe('bell', () => {
+    const ring = () => {
+      act(() => mockVNC.client!.emit('bell'));
+    };
+
+    beforeEach(() => {
+      mockVNC.client = new MockClient();
+    });
+
+    it('should beep by default', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" />));
+      ring();
+
+      expect(playBeep).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flash the canvas container for a visual bell', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" bell="visual" />));
+      const canvasContainer = container.querySelector('.vnc-canvas-container')!;
+
+      ring();
+      expect(canvasContainer.classList.contains('vnc-canvas-container--bell')).toBe(true);
+      expect(playBeep).not.toHaveBeenCalled();
+
+      act(() => {
+        jest.advanceTimersByTime(200);
+      });
+      expect(canvasContainer.classList.contains('vnc-canvas-container--bell')).toBe(false);
+    });
+
+    it('should ignore the bell when set to none', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" bell="none" />));
+      ring();
+
+      expect(playBeep).not.toHaveBeenCalled();
+      expect(container.querySelector('.vnc-canvas-container--bell')).toBeNull();
+    });
+
+    it('should call a custom bell handler instead of beeping', () => {
+      const bell = jest.fn();
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" bell={bell} />));
+      ring();
+
+      expect(bell).toHaveBeenCalledTimes(1);
+      expect(playBeep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cursor', () => {
+    const cursor = (width: number, height: number): VNCCursor => ({
+      width,
+      height,
+      hotspotX: 1,
+      hotspotY: 0,
+      data: new Uint8ClampedArray(width * height * 4)
+    });
+
+    it('should draw the remote cursor as the canvas cursor', () => {
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" />));
+      expect(mockVNC.canvasRef.current!.style.cursor).toBe('default');
+
+      mockVNC.cursor = cursor(2, 3);
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" />));
+      expect(mockVNC.canvasRef.current!.style.cursor).toBe('url(data:cursor/2x3) 1 0, default');
+    });
+
+    it('should hide the cursor when the server hides it, unless a dot is wanted', () => {
+      mockVNC.cursor = cursor(0, 0);
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" />));
+      expect(mockVNC.canvasRef.current!.style.cursor).toBe('none');
+
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" dotCursor />));
+      expect(mockVNC.canvasRef.current!.style.cursor).toBe('url(data:cursor/5x5) 2 2, default');
+    });
+
+    it('should draw a dot over the canvas for a hidden cursor while the mouse is locked', () => {
+      mockVNC.cursor = cursor(0, 0);
+      act(() => root.render(<VNCViewer url="ws://localhost:6080" pointerLock dotCursor />));
+      expect(container.querySelector('.vnc-virtual-cursor')).toBeNull();
+
+      lockPointer();
+      expect(container.querySelector('.vnc-virtual-cursor')?.getAttribute('src')).toBe('data:cursor/5x5');
+    });
+  });
+});
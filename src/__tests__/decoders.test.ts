@@ -0,0 +1,374 @@
+import * as zlib from 'zlib';
+import { VNCFramebuffer } from '../core/Framebuffer';
+import { VNCPixelConverter } from '../core/PixelConverter';
+import { VNCReceiveQueue } from '../core/ReceiveQueue';
+import { VNCDecoder } from '../decoders/types';
+import { HextileDecoder } from '../decoders/HextileDecoder';
+import { CoRREDecoder, RREDecoder } from '../decoders/RREDecoder';
+import { ZRLEDecoder } from '../decoders/ZRLEDecoder';
+import { TightDecoder, TightPNGDecoder } from '../decoders/TightDecoder';
+import { VNCImageDecoder, VNCPixelFormat, VNCRect } from '../types/vnc';
+import { VNCProtocolUtils } from '../utils/protocol';
+
+const RGB565: VNCPixelFormat = {
+  bitsPerPixel: 16,
+  depth: 16,
+  bigEndian: false,
+  trueColor: true,
+  redMax: 31,
+  greenMax: 63,
+  blueMax: 31,
+  redShift: 11,
+  greenShift: 5,
+  blueShift: 0
+};
+
+/** Default 32-bit format pixel bytes for a 0xRRGGBB colour */
+function px(rgb: number): number[] {
+  return [rgb >> 16, (rgb >> 8) & 0xff, rgb & 0xff, 0];
+}
+
+/** Compress with a sync flush and prefix the length, as ZRLE rectangles are sent */
+function zrle(bytes: number[]): number[] {
+  const compressed = zlib.deflateSync(new Uint8Array(bytes), { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+  const length = compressed.length;
+  return [length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff, ...compressed];
+}
+
+function pixelAt(framebuffer: VNCFramebuffer, x: number, y: number): number {
+  const offset = (y * framebuffer.width + x) * 4;
+  const d = framebuffer.data;
+  return (d[offset] << 16) | (d[offset + 1] << 8) | d[offset + 2];
+}
+
+/** Tight compact length encoding */
+function compactLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  if (length < 0x4000) return [(length & 0x7f) | 0x80, length >> 7];
+  return [(length & 0x7f) | 0x80, ((length >> 7) & 0x7f) | 0x80, length >> 14];
+}
+
+function decode(
+  decoder: VNCDecoder,
+  rect: VNCRect,
+  bytes: number[],
+  framebuffer: VNCFramebuffer,
+  format: VNCPixelFormat = VNCProtocolUtils.getDefaultPixelFormat(),
+  decodeImage?: VNCImageDecoder
+): { complete: boolean | Promise<void>; remaining: number } {
+  const queue = new VNCReceiveQueue();
+  queue.push(new Uint8Array(bytes));
+  const complete = decoder.decodeRect(rect, {
+    queue,
+    framebuffer,
+    pixels: new VNCPixelConverter(format),
+    decodeImage
+  });
+  return { complete, remaining: queue.length };
+}
+
+describe('HextileDecoder', () => {
+  it('should carry the background colour between tiles and draw subrects', () => {
+    const framebuffer = new VNCFramebuffer(20, 4);
+    const result = decode(new HextileDecoder(), { x: 0, y: 0, width: 20, height: 4 }, [
+      // Tile 1 (16x4): background red, foreground green, one 2x2 subrect at (1, 1)
+      0x02 | 0x04 | 0x08, ...px(0xff0000), ...px(0x00ff00), 1, 0x11, 0x11,
+      // Tile 2 (4x4): no data, reuses the red background
+      0x00
+    ], framebuffer);
+
+    expect(result).toEqual({ complete: true, remaining: 0 });
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0xff0000);
+    expect(pixelAt(framebuffer, 2, 2)).toBe(0x00ff00);
+    expect(pixelAt(framebuffer, 3, 3)).toBe(0xff0000);
+    expect(pixelAt(framebuffer, 19, 3)).toBe(0xff0000);
+  });
+
+  it('should decode coloured subrects', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    decode(new HextileDecoder(), { x: 0, y: 0, width: 4, height: 4 }, [
+      0x02 | 0x08 | 0x10, ...px(0x000000), 2,
+      ...px(0x0000ff), 0x00, 0x00,
+      ...px(0xffffff), 0x33, 0x00
+    ], framebuffer);
+
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0x0000ff);
+    expect(pixelAt(framebuffer, 3, 3)).toBe(0xffffff);
+    expect(pixelAt(framebuffer, 1, 1)).toBe(0x000000);
+  });
+
+  it('should decode raw tiles in a 16-bit pixel format', () => {
+    const framebuffer = new VNCFramebuffer(2, 1);
+    decode(new HextileDecoder(), { x: 0, y: 0, width: 2, height: 1 }, [
+      0x01, 0x00, 0xf8, 0x1f, 0x00
+    ], framebuffer, RGB565);
+
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0xff0000);
+    expect(pixelAt(framebuffer, 1, 0)).toBe(0x0000ff);
+  });
+
+  it('should wait for a complete rectangle', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    const result = decode(new HextileDecoder(), { x: 0, y: 0, width: 4, height: 4 }, [
+      0x02 | 0x08, ...px(0xff0000), 2, 0x00
+    ], framebuffer);
+
+    expect(result.complete).toBe(false);
+  });
+
+  it('should draw nothing until the rectangle is complete and resume scanning where it stopped', () => {
+    const framebuffer = new VNCFramebuffer(48, 16);
+    const fillRect = jest.spyOn(framebuffer, 'fillRect');
+    const decoder = new HextileDecoder();
+    const context = {
+      queue: new VNCReceiveQueue(),
+      framebuffer,
+      pixels: new VNCPixelConverter(VNCProtocolUtils.getDefaultPixelFormat())
+    };
+    const rect = { x: 0, y: 0, width: 48, height: 16 };
+    const peek = jest.spyOn(context.queue, 'peekUint8');
+
+    // Three solid tiles, the second only partly received
+    context.queue.push(new Uint8Array([0x02, ...px(0xff0000), 0x02, 0x00]));
+    context.queue.mark();
+    expect(decoder.decodeRect(rect, context)).toBe(false);
+    expect(fillRect).not.toHaveBeenCalled();
+    context.queue.rewind();
+
+    peek.mockClear();
+    context.queue.push(new Uint8Array([0xff, 0x00, 0x00, 0x02, ...px(0x0000ff)]));
+    expect(decoder.decodeRect(rect, context)).toBe(true);
+    // Only the two tiles after the first are scanned; reads peek without an offset
+    expect(peek.mock.calls.filter(([offset]) => offset !== undefined)).toEqual([[5], [10]]);
+    expect(context.queue.length).toBe(0);
+    expect(pixelAt(framebuffer, 20, 0)).toBe(0xff00);
+    expect(pixelAt(framebuffer, 40, 15)).toBe(0x0000ff);
+  });
+});
+
+describe('RREDecoder', () => {
+  it('should fill the background and draw subrects', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    const result = decode(new RREDecoder(), { x: 1, y: 1, width: 3, height: 3 }, [
+      0, 0, 0, 1, ...px(0x0000ff),
+      ...px(0xff0000), 0, 1, 0, 1, 0, 2, 0, 2
+    ], framebuffer);
+
+    expect(result).toEqual({ complete: true, remaining: 0 });
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0x000000);
+    expect(pixelAt(framebuffer, 1, 1)).toBe(0x0000ff);
+    expect(pixelAt(framebuffer, 2, 2)).toBe(0xff0000);
+    expect(pixelAt(framebuffer, 3, 3)).toBe(0xff0000);
+  });
+
+  it('should clip subrects to the enclosing rectangle', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    decode(new RREDecoder(), { x: 0, y: 0, width: 2, height: 2 }, [
+      0, 0, 0, 1, ...px(0x0000ff),
+      ...px(0xff0000), 0, 1, 0, 1, 0xff, 0xff, 0xff, 0xff
+    ], framebuffer);
+
+    expect(pixelAt(framebuffer, 1, 1)).toBe(0xff0000);
+    expect(pixelAt(framebuffer, 2, 2)).toBe(0x000000);
+    expect(pixelAt(framebuffer, 3, 1)).toBe(0x000000);
+  });
+});
+
+describe('CoRREDecoder', () => {
+  it('should read 8-bit subrect coordinates', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    const result = decode(new CoRREDecoder(), { x: 0, y: 0, width: 4, height: 4 }, [
+      0, 0, 0, 1, ...px(0x000000),
+      ...px(0x00ff00), 3, 3, 1, 1
+    ], framebuffer);
+
+    expect(result).toEqual({ complete: true, remaining: 0 });
+    expect(pixelAt(framebuffer, 3, 3)).toBe(0x00ff00);
+    expect(pixelAt(framebuffer, 2, 2)).toBe(0x000000);
+  });
+});
+
+describe('ZRLEDecoder', () => {
+  it('should decode solid tiles using 3-byte CPIXELs', () => {
+    const framebuffer = new VNCFramebuffer(70, 2);
+    const result = decode(new ZRLEDecoder(), { x: 0, y: 0, width: 70, height: 2 }, zrle([
+      1, 0xff, 0x00, 0x00, // 64x2 tile
+      1, 0x00, 0x00, 0xff // 6x2 tile
+    ]), framebuffer);
+
+    expect(result).toEqual({ complete: true, remaining: 0 });
+    expect(pixelAt(framebuffer, 63, 1)).toBe(0xff0000);
+    expect(pixelAt(framebuffer, 64, 0)).toBe(0x0000ff);
+  });
+
+  it('should decode packed palette tiles', () => {
+    const framebuffer = new VNCFramebuffer(3, 2);
+    decode(new ZRLEDecoder(), { x: 0, y: 0, width: 3, height: 2 }, zrle([
+      2, 0x00, 0x00, 0x00, 0xff, 0xff, 0xff,
+      0b10100000, // row 0: 1 0 1
+      0b01000000 // row 1: 0 1 0
+    ]), framebuffer);
+
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0xffffff);
+    expect(pixelAt(framebuffer, 1, 0)).toBe(0x000000);
+    expect(pixelAt(framebuffer, 2, 0)).toBe(0xffffff);
+    expect(pixelAt(framebuffer, 1, 1)).toBe(0xffffff);
+  });
+
+  it('should decode plain and palette RLE tiles', () => {
+    const framebuffer = new VNCFramebuffer(300, 1);
+    decode(new ZRLEDecoder(), { x: 0, y: 0, width: 70, height: 1 }, zrle([
+      128, 0x00, 0xff, 0x00, 255, 4, // 260 pixel run clipped to 64
+      130, 0x11, 0x11, 0x11, 0x22, 0x22, 0x22, 1, 0x80, 4 // 0x222222, then 0x111111 x5
+    ]), framebuffer);
+
+    expect(pixelAt(framebuffer, 63, 0)).toBe(0x00ff00);
+    expect(pixelAt(framebuffer, 64, 0)).toBe(0x222222);
+    expect(pixelAt(framebuffer, 69, 0)).toBe(0x111111);
+  });
+
+  it('should wait for the whole compressed payload', () => {
+    const framebuffer = new VNCFramebuffer(1, 1);
+    const data = zrle([1, 0xff, 0xff, 0xff]);
+    const result = decode(new ZRLEDecoder(), { x: 0, y: 0, width: 1, height: 1 }, data.slice(0, -1), framebuffer);
+
+    expect(result.complete).toBe(false);
+  });
+
+  it('should reject data that inflates past what the rectangle can hold', () => {
+    const framebuffer = new VNCFramebuffer(1, 1);
+    const data = zrle(new Array(65536).fill(0));
+
+    expect(() => decode(new ZRLEDecoder(), { x: 0, y: 0, width: 1, height: 1 }, data, framebuffer))
+      .toThrow('Inflated data exceeds the size limit');
+  });
+});
+
+describe('TightDecoder', () => {
+  it('should decode fill rectangles from 3-byte TPIXELs', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    const result = decode(new TightDecoder(), { x: 1, y: 1, width: 2, height: 2 }, [
+      0x80, 0x12, 0x34, 0x56
+    ], framebuffer);
+
+    expect(result).toEqual({ complete: true, remaining: 0 });
+    expect(pixelAt(framebuffer, 2, 2)).toBe(0x123456);
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0x000000);
+  });
+
+  it('should decode small copy-filter rectangles sent uncompressed', () => {
+    const framebuffer = new VNCFramebuffer(2, 1);
+    decode(new TightDecoder(), { x: 0, y: 0, width: 2, height: 1 }, [
+      0x00, 0xff, 0x00, 0x00, 0x00, 0x00, 0xff
+    ], framebuffer);
+
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0xff0000);
+    expect(pixelAt(framebuffer, 1, 0)).toBe(0x0000ff);
+  });
+
+  it('should decode compressed two-colour palette rectangles', () => {
+    const framebuffer = new VNCFramebuffer(16, 8);
+    const rows = new Array(8).fill(0).map((_, y) => (y % 2 ? [0xff, 0x00] : [0x00, 0xff])).flat();
+    const compressed = Array.from(zlib.deflateSync(new Uint8Array(rows), { finishFlush: zlib.constants.Z_SYNC_FLUSH }));
+
+    const result = decode(new TightDecoder(), { x: 0, y: 0, width: 16, height: 8 }, [
+      0x40 | 0x10, 0x01, 1, 0x00, 0x00, 0x00, 0xff, 0xff, 0xff,
+      ...compactLength(compressed.length), ...compressed
+    ], framebuffer);
+
+    expect(result).toEqual({ complete: true, remaining: 0 });
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0x000000);
+    expect(pixelAt(framebuffer, 8, 0)).toBe(0xffffff);
+    expect(pixelAt(framebuffer, 0, 1)).toBe(0xffffff);
+  });
+
+  it('should reverse the gradient filter', () => {
+    const framebuffer = new VNCFramebuffer(2, 2);
+    // Grey pixels 10, 20 / 30, 45 sent as differences from left + up - up-left
+    const diffs = [10, 10, 20, 5].flatMap(d => [d, d, d]);
+    const compressed = Array.from(zlib.deflateSync(new Uint8Array(diffs), { finishFlush: zlib.constants.Z_SYNC_FLUSH }));
+    decode(new TightDecoder(), { x: 0, y: 0, width: 2, height: 2 }, [
+      0x40, 0x02, ...compactLength(compressed.length), ...compressed
+    ], framebuffer);
+
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0x0a0a0a);
+    expect(pixelAt(framebuffer, 1, 0)).toBe(0x141414);
+    expect(pixelAt(framebuffer, 0, 1)).toBe(0x1e1e1e);
+    expect(pixelAt(framebuffer, 1, 1)).toBe(0x2d2d2d);
+  });
+
+  it('should reset zlib streams named in the control byte', () => {
+    const framebuffer = new VNCFramebuffer(4, 1);
+    const pixels = [0xff, 0, 0, 0, 0xff, 0, 0, 0, 0xff, 0xff, 0xff, 0xff];
+    const compressed = () => {
+      const data = Array.from(zlib.deflateSync(new Uint8Array(pixels), { finishFlush: zlib.constants.Z_SYNC_FLUSH }));
+      return [...compactLength(data.length), ...data];
+    };
+    const decoder = new TightDecoder();
+
+    decode(decoder, { x: 0, y: 0, width: 4, height: 1 }, [0x00, ...compressed()], framebuffer);
+    // A second, independent zlib stream is only valid after a reset of stream 0
+    const result = decode(decoder, { x: 0, y: 0, width: 4, height: 1 }, [0x01, ...compressed()], framebuffer);
+
+    expect(result.complete).toBe(true);
+    expect(pixelAt(framebuffer, 3, 0)).toBe(0xffffff);
+  });
+
+  it('should reject data that inflates past the rectangle size', () => {
+    const framebuffer = new VNCFramebuffer(4, 4);
+    const compressed = Array.from(zlib.deflateSync(new Uint8Array(65536), { finishFlush: zlib.constants.Z_SYNC_FLUSH }));
+
+    expect(() => decode(new TightDecoder(), { x: 0, y: 0, width: 4, height: 4 }, [
+      0x00, ...compactLength(compressed.length), ...compressed
+    ], framebuffer)).toThrow('Inflated data exceeds the size limit');
+  });
+
+  it('should hand JPEG data to the image decoder', async () => {
+    const framebuffer = new VNCFramebuffer(1, 1);
+    const decodeImage = jest.fn(async () => ({ width: 1, height: 1, data: new Uint8ClampedArray([1, 2, 3, 255]) }));
+
+    const result = decode(new TightDecoder(), { x: 0, y: 0, width: 1, height: 1 }, [
+      0x90, 3, 0xff, 0xd8, 0xff
+    ], framebuffer, undefined, decodeImage);
+
+    expect(result.complete).toBeInstanceOf(Promise);
+    expect(decodeImage).toHaveBeenCalledWith(new Uint8Array([0xff, 0xd8, 0xff]), 'image/jpeg');
+    await result.complete;
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0x010203);
+  });
+
+  it('should fail JPEG rectangles without an image decoder', () => {
+    const framebuffer = new VNCFramebuffer(1, 1);
+    expect(() => decode(new TightDecoder(), { x: 0, y: 0, width: 1, height: 1 }, [
+      0x90, 1, 0xff
+    ], framebuffer)).toThrow('No image decoder available');
+  });
+});
+
+describe('TightPNGDecoder', () => {
+  it('should hand PNG data to the image decoder', () => {
+    const framebuffer = new VNCFramebuffer(2, 1);
+    const decodeImage = jest.fn(() => ({ width: 2, height: 1, data: new Uint8Array([255, 0, 0, 255, 0, 0, 255, 255]) }));
+
+    const result = decode(new TightPNGDecoder(), { x: 0, y: 0, width: 2, height: 1 }, [
+      0xa0, 2, 0x89, 0x50
+    ], framebuffer, undefined, decodeImage);
+
+    expect(result).toEqual({ complete: true, remaining: 0 });
+    expect(decodeImage).toHaveBeenCalledWith(new Uint8Array([0x89, 0x50]), 'image/png');
+    expect(pixelAt(framebuffer, 1, 0)).toBe(0x0000ff);
+  });
+
+  it('should still decode fill rectangles', () => {
+    const framebuffer = new VNCFramebuffer(1, 1);
+    decode(new TightPNGDecoder(), { x: 0, y: 0, width: 1, height: 1 }, [0x80, 0xab, 0xcd, 0xef], framebuffer);
+    expect(pixelAt(framebuffer, 0, 0)).toBe(0xabcdef);
+  });
+
+  it('should reject basic compression', () => {
+    const framebuffer = new VNCFramebuffer(1, 1);
+    expect(() => decode(new TightPNGDecoder(), { x: 0, y: 0, width: 1, height: 1 }, [
+      0x00, 0, 0, 0
+    ], framebuffer)).toThrow('Invalid TightPNG compression type: 0');
+  });
+});
@@ -0,0 +1,121 @@
+import { VNCGestureRecognizer } from '../utils/gestures';
+import { VNCGesture } from '../types/vnc';
+
+describe('VNCGestureRecognizer', () => {
+  let gestures: VNCGesture[];
+  let recognizer: VNCGestureRecognizer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    gestures = [];
+    recognizer = new VNCGestureRecognizer(gesture => gestures.push(gesture));
+  });
+
+  afterEach(() => {
+    recognizer.reset();
+    jest.useRealTimers();
+  });
+
+  it('should recognise a tap at the touch-down position', () => {
+    recognizer.pointerDown(1, 100, 50);
+    recognizer.pointerMove(1, 104, 53);
+    recognizer.pointerUp(1, 104, 53);
+
+    expect(gestures).toEqual([{ type: 'tap', x: 100, y: 50 }]);
+  });
+
+  it('should recognise a long press and not tap on release', () => {
+    recognizer.pointerDown(1, 10, 20);
+    jest.advanceTimersByTime(500);
+    recognizer.pointerUp(1, 10, 20);
+
+    expect(gestures).toEqual([{ type: 'long-press', x: 10, y: 20 }]);
+  });
+
+  it('should turn a moving touch into a drag', () => {
+    recognizer.pointerDown(1, 0, 0);
+    recognizer.pointerMove(1, 30, 0);
+    recognizer.pointerMove(1, 40, 10);
+    jest.advanceTimersByTime(1000);
+    recognizer.pointerUp(1, 45, 10);
+
+    expect(gestures).toEqual([
+      { type: 'drag-start', x: 0, y: 0 },
+      { type: 'drag', x: 30, y: 0 },
+      { type: 'drag', x: 40, y: 10 },
+      { type: 'drag-end', x: 45, y: 10 }
+    ]);
+  });
+
+  it('should end a drag when the touch is cancelled', () => {
+    recognizer.pointerDown(1, 0, 0);
+    recognizer.pointerMove(1, 30, 0);
+    recognizer.pointerCancel(1);
+
+    expect(gestures[gestures.length - 1]).toEqual({ type: 'drag-end', x: 30, y: 0 });
+  });
+
+  it('should recognise a quick two-finger tap at the centre', () => {
+    recognizer.pointerDown(1, 100, 100);
+    recognizer.pointerDown(2, 140, 100);
+    jest.advanceTimersByTime(100);
+    recognizer.pointerUp(1, 100, 100);
+    recognizer.pointerUp(2, 140, 100);
+
+    expect(gestures).toEqual([{ type: 'two-finger-tap', x: 120, y: 100 }]);
+  });
+
+  it('should not tap when two fingers are held too long', () => {
+    recognizer.pointerDown(1, 100, 100);
+    recognizer.pointerDown(2, 140, 100);
+    jest.advanceTimersByTime(600);
+    recognizer.pointerUp(1, 100, 100);
+    recognizer.pointerUp(2, 140, 100);
+
+    expect(gestures).toEqual([]);
+  });
+
+  it('should scroll when two fingers move together', () => {
+    recognizer.pointerDown(1, 100, 100);
+    recognizer.pointerDown(2, 140, 100);
+    recognizer.pointerMove(1, 100, 80);
+    recognizer.pointerMove(2, 140, 80);
+    recognizer.pointerMove(1, 100, 70);
+    recognizer.pointerUp(1, 100, 70);
+    recognizer.pointerUp(2, 140, 80);
+
+    expect(gestures).toEqual([
+      { type: 'scroll', x: 120, y: 80, dx: 0, dy: -20 },
+      { type: 'scroll', x: 120, y: 75, dx: 0, dy: -5 }
+    ]);
+  });
+
+  it('should pinch when two fingers spread apart', () => {
+    recognizer.pointerDown(1, 100, 100);
+    recognizer.pointerDown(2, 200, 100);
+    recognizer.pointerMove(2, 250, 100);
+    recognizer.pointerMove(1, 50, 100);
+
+    expect(gestures).toEqual([
+      { type: 'pinch', x: 175, y: 100, scale: 1.5 },
+      { type: 'pinch', x: 150, y: 100, scale: 200 / 150 }
+    ]);
+  });
+
+  it('should ignore touches until every finger of a gesture has lifted', () => {
+    recognizer.pointerDown(1, 0, 0);
+    recognizer.pointerDown(2, 40, 0);
+    recognizer.pointerDown(3, 80, 0);
+    recognizer.pointerUp(3, 80, 0);
+    recognizer.pointerUp(1, 0, 0);
+    recognizer.pointerDown(4, 10, 10);
+    recognizer.pointerUp(4, 10, 10);
+    recognizer.pointerUp(2, 40, 0);
+
+    expect(gestures).toEqual([]);
+
+    recognizer.pointerDown(5, 10, 10);
+    recognizer.pointerUp(5, 10, 10);
+    expect(gestures).toEqual([{ type: 'tap', x: 10, y: 10 }]);
+  });
+});
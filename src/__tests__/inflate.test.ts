@@ -0,0 +1,99 @@
+import * as zlib from 'zlib';
+import { VNCInflator } from '../utils/inflate';
+import { createZlibStream } from '../utils/deflate';
+
+/**
+ * Compress chunks on one zlib stream, sync-flushing after each like RFB servers do
+ */
+function deflateChunks(chunks: Uint8Array[], level: number = 6): Promise<Uint8Array[]> {
+  const deflate = zlib.createDeflate({ level });
+  const results: Uint8Array[] = [];
+
+  return chunks.reduce<Promise<void>>((previous, chunk) => previous.then(() => new Promise(resolve => {
+    const parts: Buffer[] = [];
+    const onData = (data: Buffer) => parts.push(data);
+    deflate.on('data', onData);
+    deflate.write(chunk);
+    deflate.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+      deflate.off('data', onData);
+      results.push(new Uint8Array(Buffer.concat(parts)));
+      resolve();
+    });
+  })), Promise.resolve()).then(() => {
+    deflate.close();
+    return results;
+  });
+}
+
+function sampleData(length: number, seed: number): Uint8Array {
+  const data = new Uint8Array(length);
+  let value = seed;
+  for (let i = 0; i < length; i++) {
+    // Mix of repetition and noise so all block types get exercised
+    value = (value * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = i % 7 === 0 ? (value >> 16) & 0xff : (i >> 5) & 0xff;
+  }
+  return data;
+}
+
+describe('VNCInflator', () => {
+  it('should inflate a complete zlib stream', () => {
+    const original = sampleData(50000, 1);
+    const inflator = new VNCInflator();
+
+    expect(inflator.inflate(new Uint8Array(zlib.deflateSync(original)))).toEqual(original);
+  });
+
+  it('should inflate stored blocks', () => {
+    const original = sampleData(1000, 2);
+    const inflator = new VNCInflator();
+
+    expect(inflator.inflate(new Uint8Array(zlib.deflateSync(original, { level: 0 })))).toEqual(original);
+  });
+
+  it('should keep history across sync-flushed chunks', async () => {
+    const first = sampleData(20000, 3);
+    const second = first.slice(100, 15000); // back-references into the first chunk
+    const third = sampleData(3000, 4);
+    const compressed = await deflateChunks([first, second, third]);
+
+    const inflator = new VNCInflator();
+    expect(inflator.inflate(compressed[0])).toEqual(first);
+    expect(inflator.inflate(compressed[1])).toEqual(second);
+    expect(inflator.inflate(compressed[2])).toEqual(third);
+  });
+
+  it('should start over after reset', async () => {
+    const data = sampleData(100, 5);
+    const inflator = new VNCInflator();
+    inflator.inflate((await deflateChunks([data]))[0]);
+
+    inflator.reset();
+    expect(inflator.inflate((await deflateChunks([data]))[0])).toEqual(data);
+  });
+
+  it('should stop once the output passes the maximum length', () => {
+    const bomb = new Uint8Array(zlib.deflateSync(new Uint8Array(1024 * 1024)));
+
+    expect(() => new VNCInflator().inflate(bomb, 0, 65536)).toThrow('Inflated data exceeds the size limit');
+    expect(new VNCInflator().inflate(bomb, 0, 1024 * 1024)).toHaveLength(1024 * 1024);
+  });
+
+  it('should reject an invalid header', () => {
+    expect(() => new VNCInflator().inflate(new Uint8Array([0x12, 0x34, 0x00]))).toThrow('Invalid zlib header');
+  });
+});
+
+describe('createZlibStream', () => {
+  it('should produce streams zlib accepts, checksum included', () => {
+    for (const length of [0, 10, 70000]) {
+      const data = sampleData(length, length + 1);
+      expect(new Uint8Array(zlib.inflateSync(createZlibStream(data)))).toEqual(data);
+    }
+  });
+
+  it('should round-trip through VNCInflator', () => {
+    const data = sampleData(1000, 3);
+    expect(new VNCInflator().inflate(createZlibStream(data))).toEqual(data);
+  });
+});
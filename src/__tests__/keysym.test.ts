@@ -0,0 +1,81 @@
+import { VNCKeysym, codePointToKeysym, keyToKeysym } from '../utils/keysym';
+import { codeToQEMUKeycode } from '../utils/scancodes';
+
+describe('keyToKeysym', () => {
+  it('should map printable characters to their Latin-1 keysyms', () => {
+    expect(keyToKeysym('a', 'KeyA')).toBe(0x61);
+    expect(keyToKeysym('A', 'KeyA')).toBe(0x41);
+    expect(keyToKeysym(' ', 'Space')).toBe(0x20);
+    expect(keyToKeysym('é', 'Digit2')).toBe(0xe9);
+  });
+
+  it('should map characters beyond Latin-1 with the Unicode rule', () => {
+    expect(keyToKeysym('€', 'KeyE')).toBe(0x010020ac);
+    expect(keyToKeysym('ж', 'Semicolon')).toBe(0x01000436);
+    expect(keyToKeysym('\u{1f600}', '')).toBe(0x0101f600);
+  });
+
+  it('should map function and navigation keys', () => {
+    expect(keyToKeysym('F1', 'F1')).toBe(VNCKeysym.F1);
+    expect(keyToKeysym('F12', 'F12')).toBe(0xffc9);
+    expect(keyToKeysym('Home', 'Home')).toBe(VNCKeysym.Home);
+    expect(keyToKeysym('End', 'End')).toBe(VNCKeysym.End);
+    expect(keyToKeysym('PageUp', 'PageUp')).toBe(VNCKeysym.Page_Up);
+    expect(keyToKeysym('PageDown', 'PageDown')).toBe(VNCKeysym.Page_Down);
+    expect(keyToKeysym('Insert', 'Insert')).toBe(VNCKeysym.Insert);
+    expect(keyToKeysym('Delete', 'Delete')).toBe(VNCKeysym.Delete);
+  });
+
+  it('should tell left and right modifiers apart', () => {
+    expect(keyToKeysym('Shift', 'ShiftLeft')).toBe(VNCKeysym.Shift_L);
+    expect(keyToKeysym('Shift', 'ShiftRight')).toBe(VNCKeysym.Shift_R);
+    expect(keyToKeysym('Control', 'ControlRight')).toBe(VNCKeysym.Control_R);
+    expect(keyToKeysym('Alt', 'AltLeft')).toBe(VNCKeysym.Alt_L);
+    expect(keyToKeysym('Meta', 'MetaLeft')).toBe(VNCKeysym.Super_L);
+    expect(keyToKeysym('AltGraph', 'AltRight')).toBe(VNCKeysym.ISO_Level3_Shift);
+    expect(keyToKeysym('Control', '')).toBe(VNCKeysym.Control_L);
+  });
+
+  it('should follow Num Lock on the keypad', () => {
+    expect(keyToKeysym('7', 'Numpad7')).toBe(0xffb7);
+    expect(keyToKeysym('Home', 'Numpad7')).toBe(VNCKeysym.KP_Home);
+    expect(keyToKeysym('.', 'NumpadDecimal')).toBe(VNCKeysym.KP_Decimal);
+    expect(keyToKeysym('Delete', 'NumpadDecimal')).toBe(VNCKeysym.KP_Delete);
+    expect(keyToKeysym('Enter', 'NumpadEnter')).toBe(VNCKeysym.KP_Enter);
+    expect(keyToKeysym('+', 'NumpadAdd')).toBe(VNCKeysym.KP_Add);
+  });
+
+  it('should fall back to the physical key for unidentified keys', () => {
+    expect(keyToKeysym('Unidentified', 'KeyQ')).toBe(0x71);
+    expect(keyToKeysym('Unidentified', 'Digit5')).toBe(0x35);
+    expect(keyToKeysym('Dead', 'BracketLeft')).toBe(0);
+  });
+
+  it('should not find Object.prototype members in the key tables', () => {
+    expect(keyToKeysym('toString', '')).toBe(0);
+    expect(keyToKeysym('constructor', 'hasOwnProperty')).toBe(0);
+    expect(keyToKeysym('a', '__proto__')).toBe(0x61);
+  });
+});
+
+describe('codePointToKeysym', () => {
+  it('should keep Latin-1 and offset everything else', () => {
+    expect(codePointToKeysym(0x7e)).toBe(0x7e);
+    expect(codePointToKeysym(0xff)).toBe(0xff);
+    expect(codePointToKeysym(0x100)).toBe(0x01000100);
+  });
+});
+
+describe('codeToQEMUKeycode', () => {
+  it('should fold 0xE0-prefixed scancodes into the high bit', () => {
+    expect(codeToQEMUKeycode('KeyA')).toBe(0x1e);
+    expect(codeToQEMUKeycode('NumpadEnter')).toBe(0x9c);
+    expect(codeToQEMUKeycode('ArrowUp')).toBe(0xc8);
+    expect(codeToQEMUKeycode('Unidentified')).toBe(0);
+  });
+
+  it('should not find Object.prototype members in the scancode table', () => {
+    expect(codeToQEMUKeycode('toString')).toBe(0);
+    expect(codeToQEMUKeycode('__proto__')).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  VNCWheelAccumulator,
+  domButtonsToMask,
+  framebufferToCanvasPoint,
+  moveLockedPointer,
+  wheelDeltaToPixels
+} from '../utils/pointer';
+import { VNCPointerButton } from '../utils/protocol';
+
+describe('domButtonsToMask', () => {
+  it('should swap the DOM right and middle buttons into RFB order', () => {
+    expect(domButtonsToMask(1)).toBe(VNCPointerButton.Left);
+    expect(domButtonsToMask(2)).toBe(VNCPointerButton.Right);
+    expect(domButtonsToMask(4)).toBe(VNCPointerButton.Middle);
+    expect(domButtonsToMask(1 | 2 | 4)).toBe(7);
+  });
+
+  it('should drop the back and forward buttons', () => {
+    expect(domButtonsToMask(8 | 16)).toBe(0);
+  });
+});
+
+describe('wheelDeltaToPixels', () => {
+  it('should scale line and page deltas', () => {
+    expect(wheelDeltaToPixels(120, 0, 600)).toBe(120);
+    expect(wheelDeltaToPixels(3, 1, 600)).toBe(57);
+    expect(wheelDeltaToPixels(-1, 2, 600)).toBe(-600);
+  });
+});
+
+describe('moveLockedPointer', () => {
+  it('should move by the mouse motion at scale 1', () => {
+    expect(moveLockedPointer({ x: 10, y: 10 }, 5, -3, 1, 800, 600)).toEqual({ x: 15, y: 7 });
+  });
+
+  it('should move twice as far in framebuffer pixels at scale 0.5', () => {
+    expect(moveLockedPointer({ x: 10, y: 10 }, 5, -3, 0.5, 800, 600)).toEqual({ x: 20, y: 4 });
+    expect(moveLockedPointer({ x: 10, y: 10 }, 0.75, 0, 0.5, 800, 600)).toEqual({ x: 11.5, y: 10 });
+  });
+
+  it('should keep the pointer on the framebuffer', () => {
+    for (const scale of [1, 0.5]) {
+      expect(moveLockedPointer({ x: 790, y: 5 }, 1000, -1000, scale, 800, 600)).toEqual({ x: 799, y: 0 });
+      expect(moveLockedPointer({ x: 5, y: 590 }, -1000, 1000, scale, 800, 600)).toEqual({ x: 0, y: 599 });
+    }
+  });
+});
+
+describe('framebufferToCanvasPoint', () => {
+  // What VNCClient.sendPointerEvent sends for a canvas point
+  const sent = (point: { x: number; y: number }, scale: number) => [
+    Math.floor(point.x / scale),
+    Math.floor(point.y / scale)
+  ];
+
+  it('should land on the same framebuffer pixel at scale 1', () => {
+    expect(sent(framebufferToCanvasPoint({ x: 799.9, y: 0 }, 1), 1)).toEqual([799, 0]);
+  });
+
+  it('should land on the same framebuffer pixel at scale 0.5', () => {
+    expect(framebufferToCanvasPoint({ x: 799, y: 599 }, 0.5)).toEqual({ x: 399.75, y: 299.75 });
+    expect(sent(framebufferToCanvasPoint({ x: 799, y: 599 }, 0.5), 0.5)).toEqual([799, 599]);
+  });
+
+  it('should not be thrown off by floating point rounding', () => {
+    for (let x = 0; x < 1000; x++) {
+      expect(sent(framebufferToCanvasPoint({ x, y: 0 }, 0.7), 0.7)[0]).toBe(x);
+    }
+  });
+});
+
+describe('VNCWheelAccumulator', () => {
+  it('should turn each full step into a wheel button', () => {
+    const wheel = new VNCWheelAccumulator();
+
+    expect(wheel.add(0, 120)).toEqual([VNCPointerButton.WheelDown, VNCPointerButton.WheelDown]);
+    expect(wheel.add(-50, 0)).toEqual([VNCPointerButton.WheelLeft]);
+  });
+
+  it('should accumulate small trackpad deltas', () => {
+    const wheel = new VNCWheelAccumulator();
+
+    expect(wheel.add(0, -20)).toEqual([]);
+    expect(wheel.add(0, -20)).toEqual([]);
+    expect(wheel.add(0, -20)).toEqual([VNCPointerButton.WheelUp]);
+    expect(wheel.add(30, 0)).toEqual([]);
+    expect(wheel.add(25, 0)).toEqual([VNCPointerButton.WheelRight]);
+  });
+
+  it('should start over when the direction changes', () => {
+    const wheel = new VNCWheelAccumulator();
+
+    wheel.add(0, 40);
+    expect(wheel.add(0, -40)).toEqual([]);
+    expect(wheel.add(0, -10)).toEqual([VNCPointerButton.WheelUp]);
+
+    wheel.add(0, 40);
+    wheel.reset();
+    expect(wheel.add(0, 10)).toEqual([]);
+  });
+
+  it('should use a custom step size', () => {
+    expect(new VNCWheelAccumulator(20).add(0, 40)).toHaveLength(2);
+  });
+});
@@ -1,6 +1,17 @@
-import React, { useEffect, useCallback, useState } from 'react';
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import { useVNC, UseVNCOptions } from '../hooks/useVNC';
-import { VNCKeyEvent, VNCPointerEvent } from '../types/vnc';
+import { VNCGesture, VNCKeyEvent, VNCPoint } from '../types/vnc';
+import { createCursorImage, createCursorStyle, createDotCursor } from '../utils/cursor';
+import { playBeep } from '../utils/bell';
+import { VNCGestureRecognizer } from '../utils/gestures';
+import { VNCPointerButton } from '../utils/protocol';
+import {
+  VNCWheelAccumulator,
+  domButtonsToMask,
+  framebufferToCanvasPoint,
+  moveLockedPointer,
+  wheelDeltaToPixels
+} from '../utils/pointer';
 import '../styles/VNCViewer.css';
 
 export interface VNCViewerProps extends UseVNCOptions {
@@ -26,10 +37,33 @@ export interface VNCViewerProps extends UseVNCOptions {
   connectButtonText?: string;
   /** Custom disconnect button text */
   disconnectButtonText?: string;
-  /** Show blinking cursor when ready to type */
+  /** Draw the remote cursor locally, so it moves without a server round trip */
   showCursor?: boolean;
+  /** Show a dot cursor while the server hides its cursor */
+  dotCursor?: boolean;
+  /** Resize the remote session to fit the viewer */
+  resizeSession?: boolean;
+  /** How to ring the remote bell: a beep, a flash of the canvas, nothing, or a custom handler */
+  bell?: 'audio' | 'visual' | 'none' | (() => void);
+  /** Capture the mouse on click and send relative movement, for 3D apps and games. Escape releases it. */
+  pointerLock?: boolean;
 }
 
+/** Wait for the container to settle before asking the server to resize */
+const RESIZE_SESSION_DELAY = 500;
+
+/** Width of the canvas border, in CSS pixels */
+const CANVAS_BORDER = 1;
+
+/** Length of the visual bell flash, matching the CSS animation */
+const VISUAL_BELL_DURATION = 200;
+
+/** Two-finger scroll distance per wheel step, in pixels */
+const TOUCH_SCROLL_STEP = 20;
+
+/** Largest pinch zoom of the local view */
+const MAX_ZOOM = 4;
+
 export const VNCViewer: React.FC<VNCViewerProps> = ({
   className = '',
   style = {},
@@ -43,41 +77,119 @@ export const VNCViewer: React.FC<VNCViewerProps> = ({
   connectButtonText = 'Connect',
   disconnectButtonText = 'Disconnect',
   showCursor = true,
+  dotCursor = false,
+  resizeSession = false,
+  bell = 'audio',
+  pointerLock = false,
   ...vncOptions
 }) => {
   const {
+    client,
     state,
     connect,
     disconnect,
     sendKeyEvent,
+    releaseAllKeys,
     sendPointerEvent,
+    requestDesktopSize,
     canvasRef,
     error,
-    loading
-  } = useVNC(vncOptions);
+    loading,
+    cursor
+  } = useVNC({ ...vncOptions, localCursor: showCursor && vncOptions.localCursor !== false });
 
   const [isFocused, setIsFocused] = useState(false);
-  const [cursorVisible, setCursorVisible] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [bellFlash, setBellFlash] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [zoomOrigin, setZoomOrigin] = useState('50% 50%');
+  const wheel = useMemo(() => new VNCWheelAccumulator(), []);
+  const touchScroll = useMemo(() => new VNCWheelAccumulator(TOUCH_SCROLL_STEP), []);
+  const [pointerLocked, setPointerLocked] = useState(false);
+  /** Remote pointer position while the mouse is locked, in framebuffer pixels */
+  const virtualPointRef = useRef<VNCPoint>({ x: 0, y: 0 });
+  const virtualCursorRef = useRef<HTMLImageElement>(null);
+  /** Code of a key press kept from the server, so its release is kept too */
+  const swallowedKeyRef = useRef<string | null>(null);
 
-  // Blinking cursor effect
+  // Remote cursor as a CSS cursor; until the server sends one, use the system cursor
+  const canvasCursor = useMemo(() => {
+    if (disableMouse || !showCursor || !cursor) return 'default';
+    return createCursorStyle(cursor) ??
+      (dotCursor ? createCursorStyle(createDotCursor()) ?? 'default' : 'none');
+  }, [cursor, disableMouse, showCursor, dotCursor]);
+
+  // The system cursor is hidden while the mouse is locked, so draw the remote one
+  const virtualCursor = useMemo(() => {
+    if (!pointerLock || !showCursor || !cursor) return null;
+    if (cursor.width > 0 && cursor.height > 0) return cursor;
+    return dotCursor ? createDotCursor() : null;
+  }, [pointerLock, showCursor, cursor, dotCursor]);
+  const virtualCursorImage = useMemo(() => virtualCursor && createCursorImage(virtualCursor), [virtualCursor]);
+
+  // Ask the server to match the container size, once resizing has settled
   useEffect(() => {
-    if (!showCursor || !isFocused || !state.connected || disableKeyboard) {
-      setCursorVisible(false);
-      return;
-    }
+    const container = containerRef.current;
+    if (!resizeSession || !state.connected || !container || typeof ResizeObserver === 'undefined') return;
 
-    const interval = setInterval(() => {
-      setCursorVisible(prev => !prev);
-    }, 530); // Standard cursor blink rate
+    // The canvas is drawn at `scale`, so the desktop that fills the container is larger or smaller
+    const scale = vncOptions.scale || 1;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[entries.length - 1].contentRect;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        requestDesktopSize(
+          Math.round((width - CANVAS_BORDER * 2) / scale),
+          Math.round((height - CANVAS_BORDER * 2) / scale)
+        );
+      }, RESIZE_SESSION_DELAY);
+    });
+    observer.observe(container);
 
-    return () => clearInterval(interval);
-  }, [showCursor, isFocused, state.connected, disableKeyboard]);
+    return () => {
+      observer.disconnect();
+      if (timer) clearTimeout(timer);
+    };
+  }, [resizeSession, state.connected, requestDesktopSize, vncOptions.scale]);
+
+  // Ring the remote bell
+  useEffect(() => {
+    if (!client || bell === 'none') return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const handleBell = () => {
+      if (typeof bell === 'function') {
+        bell();
+      } else if (bell === 'audio') {
+        playBeep();
+      } else if (bell === 'visual') {
+        setBellFlash(true);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => setBellFlash(false), VISUAL_BELL_DURATION);
+      }
+    };
+
+    client.on('bell', handleBell);
+    return () => {
+      client.off('bell', handleBell);
+      if (timer) clearTimeout(timer);
+    };
+  }, [client, bell]);
 
   // Handle keyboard events
   const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
     if (disableKeyboard || !state.connected) return;
     
     event.preventDefault();
+
+    // Escape belongs to the viewer while the mouse is locked
+    if (pointerLocked && event.key === 'Escape') {
+      swallowedKeyRef.current = event.code;
+      document.exitPointerLock();
+      return;
+    }
     
     const vncEvent: VNCKeyEvent = {
       key: event.key,
@@ -90,12 +202,17 @@ export const VNCViewer: React.FC<VNCViewerProps> = ({
     };
     
     sendKeyEvent(vncEvent);
-  }, [disableKeyboard, state.connected, sendKeyEvent]);
+  }, [disableKeyboard, state.connected, sendKeyEvent, pointerLocked]);
 
   const handleKeyUp = useCallback((event: React.KeyboardEvent) => {
     if (disableKeyboard || !state.connected) return;
     
     event.preventDefault();
+
+    if (event.code === swallowedKeyRef.current) {
+      swallowedKeyRef.current = null;
+      return;
+    }
     
     const vncEvent: VNCKeyEvent = {
       key: event.key,
@@ -110,54 +227,217 @@ export const VNCViewer: React.FC<VNCViewerProps> = ({
     sendKeyEvent(vncEvent);
   }, [disableKeyboard, state.connected, sendKeyEvent]);
 
+  // Map a point on screen to framebuffer coordinates
+  const toFramebufferPoint = useCallback((clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    const rect = canvas ? canvas.getBoundingClientRect() : { left: 0, top: 0 };
+    const scale = (vncOptions.scale || 1) * zoom;
+
+    return {
+      x: Math.floor((clientX - rect.left) / scale),
+      y: Math.floor((clientY - rect.top) / scale)
+    };
+  }, [vncOptions.scale, zoom]);
+
+  // Pointer position for a mouse event; while the mouse is locked, that's the virtual cursor
+  const getPointerPoint = useCallback((event: { clientX: number; clientY: number }) => {
+    return pointerLocked ? virtualPointRef.current : toFramebufferPoint(event.clientX, event.clientY);
+  }, [pointerLocked, toFramebufferPoint]);
+
+  // Send a pointer event at a framebuffer position. The client takes canvas
+  // coordinates and divides them by the scale itself.
+  const sendPointer = useCallback((point: VNCPoint, buttons: number) => {
+    sendPointerEvent({ ...framebufferToCanvasPoint(point, vncOptions.scale || 1), buttons });
+  }, [sendPointerEvent, vncOptions.scale]);
+
+  // Place the virtual cursor image over the canvas
+  const moveVirtualCursor = useCallback(() => {
+    const image = virtualCursorRef.current;
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!image || !canvas || !container || !virtualCursor) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    const scale = (vncOptions.scale || 1) * zoom;
+    const { x, y } = virtualPointRef.current;
+    image.style.left = `${rect.left - containerRect.left + container.scrollLeft + x * scale - virtualCursor.hotspotX}px`;
+    image.style.top = `${rect.top - containerRect.top + container.scrollTop + y * scale - virtualCursor.hotspotY}px`;
+  }, [virtualCursor, vncOptions.scale, zoom]);
+
+  // Track whether the canvas holds the pointer lock, and let go of it on disconnect
+  useEffect(() => {
+    if (!pointerLock || !state.connected || typeof document === 'undefined') return;
+
+    const handlePointerLockChange = () => {
+      setPointerLocked(document.pointerLockElement === canvasRef.current);
+    };
+
+    document.addEventListener('pointerlockchange', handlePointerLockChange);
+    return () => {
+      document.removeEventListener('pointerlockchange', handlePointerLockChange);
+      if (document.pointerLockElement === canvasRef.current) {
+        document.exitPointerLock();
+      }
+      setPointerLocked(false);
+    };
+  }, [pointerLock, state.connected]);
+
+  useEffect(() => {
+    if (pointerLocked) moveVirtualCursor();
+  }, [pointerLocked, moveVirtualCursor]);
+
   // Handle mouse events
   const handleMouseDown = useCallback((event: React.MouseEvent) => {
     if (disableMouse || !state.connected) return;
+
+    // The first click only captures the mouse
+    if (pointerLock && !pointerLocked) {
+      virtualPointRef.current = toFramebufferPoint(event.clientX, event.clientY);
+      // The browser may refuse, e.g. right after the user pressed Escape; the next click tries again
+      canvasRef.current?.requestPointerLock()?.catch(() => undefined);
+      return;
+    }
     
-    const rect = (event.target as HTMLCanvasElement).getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-    
-    const vncEvent: VNCPointerEvent = {
-      x: Math.floor(x / (vncOptions.scale || 1)),
-      y: Math.floor(y / (vncOptions.scale || 1)),
-      buttons: event.buttons
-    };
-    
-    sendPointerEvent(vncEvent);
-  }, [disableMouse, state.connected, sendPointerEvent, vncOptions.scale]);
+    sendPointer(getPointerPoint(event), domButtonsToMask(event.buttons));
+  }, [disableMouse, state.connected, sendPointer, getPointerPoint, toFramebufferPoint, pointerLock, pointerLocked]);
 
   const handleMouseUp = useCallback((event: React.MouseEvent) => {
     if (disableMouse || !state.connected) return;
     
-    const rect = (event.target as HTMLCanvasElement).getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-    
-    const vncEvent: VNCPointerEvent = {
-      x: Math.floor(x / (vncOptions.scale || 1)),
-      y: Math.floor(y / (vncOptions.scale || 1)),
-      buttons: 0
-    };
-    
-    sendPointerEvent(vncEvent);
-  }, [disableMouse, state.connected, sendPointerEvent, vncOptions.scale]);
+    // Other buttons may still be held
+    sendPointer(getPointerPoint(event), domButtonsToMask(event.buttons));
+  }, [disableMouse, state.connected, sendPointer, getPointerPoint]);
 
   const handleMouseMove = useCallback((event: React.MouseEvent) => {
     if (disableMouse || !state.connected) return;
+
+    if (pointerLocked) {
+      // Move the virtual cursor by the relative motion, kept on the framebuffer
+      virtualPointRef.current = moveLockedPointer(
+        virtualPointRef.current,
+        event.movementX,
+        event.movementY,
+        (vncOptions.scale || 1) * zoom,
+        state.width,
+        state.height
+      );
+      moveVirtualCursor();
+    }
     
-    const rect = (event.target as HTMLCanvasElement).getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-    
-    const vncEvent: VNCPointerEvent = {
-      x: Math.floor(x / (vncOptions.scale || 1)),
-      y: Math.floor(y / (vncOptions.scale || 1)),
-      buttons: event.buttons
+    sendPointer(getPointerPoint(event), domButtonsToMask(event.buttons));
+  }, [
+    disableMouse,
+    state.connected,
+    state.width,
+    state.height,
+    sendPointer,
+    getPointerPoint,
+    pointerLocked,
+    moveVirtualCursor,
+    vncOptions.scale,
+    zoom
+  ]);
+
+  // Right clicks go to the remote desktop, not the browser's menu
+  const handleContextMenu = useCallback((event: React.MouseEvent) => {
+    if (disableMouse || !state.connected) return;
+    event.preventDefault();
+  }, [disableMouse, state.connected]);
+
+  // Scroll with wheel buttons 4-7. React's wheel listener is passive, which
+  // would let the page scroll too, so listen directly.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (disableMouse || !state.connected || !canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+
+      const point = getPointerPoint(event);
+      const held = domButtonsToMask(event.buttons);
+      const steps = wheel.add(
+        wheelDeltaToPixels(event.deltaX, event.deltaMode, canvas.clientWidth),
+        wheelDeltaToPixels(event.deltaY, event.deltaMode, canvas.clientHeight)
+      );
+      for (const button of steps) {
+        sendPointer(point, held | button);
+        sendPointer(point, held);
+      }
     };
-    
-    sendPointerEvent(vncEvent);
-  }, [disableMouse, state.connected, sendPointerEvent, vncOptions.scale]);
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [disableMouse, state.connected, sendPointer, getPointerPoint, wheel]);
+
+  // Handle touch gestures
+  const handleGesture = useCallback((gesture: VNCGesture) => {
+    const point = toFramebufferPoint(gesture.x, gesture.y);
+    const click = (button: number) => {
+      sendPointer(point, button);
+      sendPointer(point, 0);
+    };
+
+    switch (gesture.type) {
+      case 'tap':
+        click(VNCPointerButton.Left);
+        break;
+      case 'long-press':
+      case 'two-finger-tap':
+        click(VNCPointerButton.Right);
+        break;
+      case 'drag-start':
+      case 'drag':
+        sendPointer(point, VNCPointerButton.Left);
+        break;
+      case 'drag-end':
+        sendPointer(point, 0);
+        break;
+      case 'scroll':
+        // Content follows the fingers, so moving them up scrolls down
+        touchScroll.add(-gesture.dx, -gesture.dy).forEach(click);
+        break;
+      case 'pinch': {
+        // Zoom around where the pinch started
+        const canvas = canvasRef.current;
+        if (zoom === 1 && canvas) {
+          const rect = canvas.getBoundingClientRect();
+          setZoomOrigin(`${gesture.x - rect.left}px ${gesture.y - rect.top}px`);
+        }
+        setZoom(current => Math.min(MAX_ZOOM, Math.max(1, current * gesture.scale)));
+        break;
+      }
+    }
+  }, [sendPointer, toFramebufferPoint, touchScroll, zoom]);
+
+  // The recognizer outlives renders, so it calls the latest handler through a ref
+  const handleGestureRef = useRef(handleGesture);
+  handleGestureRef.current = handleGesture;
+  const gestures = useMemo(() => new VNCGestureRecognizer(gesture => handleGestureRef.current(gesture)), []);
+  useEffect(() => () => gestures.reset(), [gestures]);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent) => {
+    if (event.pointerType !== 'touch' || disableMouse || !state.connected) return;
+
+    // Stop the browser from also sending mouse events for the touch
+    event.preventDefault();
+    gestures.pointerDown(event.pointerId, event.clientX, event.clientY);
+  }, [disableMouse, state.connected, gestures]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent) => {
+    if (event.pointerType !== 'touch') return;
+    gestures.pointerMove(event.pointerId, event.clientX, event.clientY);
+  }, [gestures]);
+
+  const handlePointerUp = useCallback((event: React.PointerEvent) => {
+    if (event.pointerType !== 'touch') return;
+    gestures.pointerUp(event.pointerId, event.clientX, event.clientY);
+  }, [gestures]);
+
+  const handlePointerCancel = useCallback((event: React.PointerEvent) => {
+    if (event.pointerType !== 'touch') return;
+    gestures.pointerCancel(event.pointerId);
+  }, [gestures]);
 
   // Handle canvas focus
   const handleCanvasFocus = useCallback(() => {
@@ -166,7 +446,9 @@ export const VNCViewer: React.FC<VNCViewerProps> = ({
 
   const handleCanvasBlur = useCallback(() => {
     setIsFocused(false);
-  }, []);
+    // Key-up events go elsewhere now, so don't leave keys held down
+    releaseAllKeys();
+  }, [releaseAllKeys]);
 
   // Auto-focus canvas for keyboard events
   useEffect(() => {
@@ -258,7 +540,7 @@ export const VNCViewer: React.FC<VNCViewerProps> = ({
         </div>
       )}
       
-      <div className="vnc-canvas-container">
+      <div className={`vnc-canvas-container ${bellFlash ? 'vnc-canvas-container--bell' : ''}`} ref={containerRef}>
         <canvas
           ref={canvasRef}
           className={`vnc-canvas ${isFocused ? 'vnc-canvas--focused' : ''}`}
@@ -268,36 +550,31 @@ export const VNCViewer: React.FC<VNCViewerProps> = ({
           onMouseDown={handleMouseDown}
           onMouseUp={handleMouseUp}
           onMouseMove={handleMouseMove}
+          onContextMenu={handleContextMenu}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
           onFocus={handleCanvasFocus}
           onBlur={handleCanvasBlur}
           style={{
             outline: 'none',
-            cursor: disableMouse ? 'default' : 'pointer',
-            border: '1px solid #333',
+            cursor: canvasCursor,
+            border: `${CANVAS_BORDER}px solid #333`,
             background: '#000',
             display: 'block',
             maxWidth: '100%',
             maxHeight: '100%',
             flex: 1,
-            position: 'relative'
+            position: 'relative',
+            // Gestures are ours; don't let the browser pan or zoom the page
+            touchAction: disableMouse ? 'auto' : 'none',
+            transform: zoom !== 1 ? `scale(${zoom})` : undefined,
+            transformOrigin: zoomOrigin
           }}
         />
-        
-        {/* Blinking cursor indicator */}
-        {showCursor && isFocused && state.connected && !disableKeyboard && (
-          <div 
-            className={`vnc-cursor ${cursorVisible ? 'vnc-cursor--visible' : 'vnc-cursor--hidden'}`}
-            style={{
-              position: 'absolute',
-              top: '10px',
-              right: '10px',
-              width: '2px',
-              height: '16px',
-              backgroundColor: '#00ff00',
-              pointerEvents: 'none',
-              zIndex: 10
-            }}
-          />
+        {pointerLocked && virtualCursorImage && (
+          <img ref={virtualCursorRef} className="vnc-virtual-cursor" src={virtualCursorImage} alt="" />
         )}
       </div>
     </div>
@@ -0,0 +1,45 @@
+/**
+ * Colour map for indexed (non true colour) pixel formats, filled in by
+ * SetColourMapEntries. Entries are stored as 0xRRGGBB; unset entries are black.
+ */
+export class VNCColourMap {
+  private entries: Uint32Array = new Uint32Array(256);
+
+  /**
+   * Number of entries the map can currently hold
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Look up an entry as 0xRRGGBB
+   */
+  get(index: number): number {
+    return index < this.entries.length ? this.entries[index] : 0;
+  }
+
+  /**
+   * Set `colours` (0xRRGGBB) starting at entry `first`
+   */
+  set(first: number, colours: ArrayLike<number>): void {
+    const end = first + colours.length;
+    if (end > this.entries.length) {
+      // 16-bit indexed formats can address up to 65536 entries
+      const grown = new Uint32Array(Math.min(65536, Math.max(end, this.entries.length * 2)));
+      grown.set(this.entries);
+      this.entries = grown;
+    }
+
+    for (let i = 0; i < colours.length && first + i < this.entries.length; i++) {
+      this.entries[first + i] = colours[i];
+    }
+  }
+
+  /**
+   * Reset every entry to black
+   */
+  clear(): void {
+    this.entries = new Uint32Array(256);
+  }
+}
@@ -0,0 +1,154 @@
+import { VNCRect } from '../types/vnc';
+
+/**
+ * Client-side copy of the remote framebuffer, stored as RGBA.
+ *
+ * Decoders write into it as rectangles arrive; renderers read it through
+ * getImageData() (browsers) or the raw `data` array (Node, Bun).
+ * All drawing operations are clipped to the framebuffer bounds.
+ */
+export class VNCFramebuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  private imageData: ImageData | null = null;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.data = new Uint8ClampedArray(width * height * 4);
+    this.clear();
+  }
+
+  /**
+   * Resize the framebuffer, keeping the overlapping area
+   */
+  resize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+
+    const previous = this.data;
+    const previousWidth = this.width;
+    const copyWidth = Math.min(width, this.width);
+    const copyHeight = Math.min(height, this.height);
+
+    this.width = width;
+    this.height = height;
+    this.data = new Uint8ClampedArray(width * height * 4);
+    this.imageData = null;
+    this.clear();
+
+    for (let row = 0; row < copyHeight; row++) {
+      const start = row * previousWidth * 4;
+      this.data.set(previous.subarray(start, start + copyWidth * 4), row * width * 4);
+    }
+  }
+
+  /**
+   * Fill the whole framebuffer with opaque black
+   */
+  clear(): void {
+    this.data.fill(0);
+    for (let i = 3; i < this.data.length; i += 4) {
+      this.data[i] = 255;
+    }
+  }
+
+  /**
+   * Clip a rectangle to the framebuffer, returning null if nothing remains
+   */
+  clip(rect: VNCRect): VNCRect | null {
+    const x = Math.max(0, rect.x);
+    const y = Math.max(0, rect.y);
+    const right = Math.min(this.width, rect.x + rect.width);
+    const bottom = Math.min(this.height, rect.y + rect.height);
+
+    if (right <= x || bottom <= y) return null;
+    return { x, y, width: right - x, height: bottom - y };
+  }
+
+  /**
+   * Fill a rectangle with a single 0xRRGGBB colour
+   */
+  fillRect(x: number, y: number, width: number, height: number, rgb: number): void {
+    const area = this.clip({ x, y, width, height });
+    if (!area) return;
+
+    const r = (rgb >> 16) & 0xff;
+    const g = (rgb >> 8) & 0xff;
+    const b = rgb & 0xff;
+
+    for (let row = area.y; row < area.y + area.height; row++) {
+      let offset = (row * this.width + area.x) * 4;
+      for (let col = 0; col < area.width; col++) {
+        this.data[offset] = r;
+        this.data[offset + 1] = g;
+        this.data[offset + 2] = b;
+        this.data[offset + 3] = 255;
+        offset += 4;
+      }
+    }
+  }
+
+  /**
+   * Copy RGBA pixels for a rectangle into the framebuffer.
+   * `pixels` holds width * height * 4 bytes starting at `offset`.
+   */
+  putRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    pixels: Uint8Array | Uint8ClampedArray,
+    offset: number = 0
+  ): void {
+    const area = this.clip({ x, y, width, height });
+    if (!area) return;
+
+    for (let row = 0; row < area.height; row++) {
+      const srcStart = offset + ((area.y - y + row) * width + (area.x - x)) * 4;
+      const dstStart = ((area.y + row) * this.width + area.x) * 4;
+      this.data.set(pixels.subarray(srcStart, srcStart + area.width * 4), dstStart);
+    }
+  }
+
+  /**
+   * Copy a rectangle within the framebuffer; source and destination may overlap
+   */
+  copyRect(srcX: number, srcY: number, x: number, y: number, width: number, height: number): void {
+    // Clip the destination, then the source, shifting the other to match
+    const dest = this.clip({ x, y, width, height });
+    if (!dest) return;
+    srcX += dest.x - x;
+    srcY += dest.y - y;
+
+    const src = this.clip({ x: srcX, y: srcY, width: dest.width, height: dest.height });
+    if (!src) return;
+    const dstX = dest.x + (src.x - srcX);
+    const dstY = dest.y + (src.y - srcY);
+
+    const rowBytes = src.width * 4;
+    // Walk rows bottom-up when moving down so overlapping rows aren't overwritten first
+    const downward = dstY > src.y;
+    for (let i = 0; i < src.height; i++) {
+      const row = downward ? src.height - 1 - i : i;
+      const srcStart = ((src.y + row) * this.width + src.x) * 4;
+      const dstStart = ((dstY + row) * this.width + dstX) * 4;
+      this.data.copyWithin(dstStart, srcStart, srcStart + rowBytes);
+    }
+  }
+
+  /**
+   * Get an ImageData view of the framebuffer, or undefined where the
+   * platform has no ImageData (Node, Bun)
+   */
+  getImageData(): ImageData | undefined {
+    if (typeof ImageData === 'undefined' || this.width === 0 || this.height === 0) {
+      return undefined;
+    }
+
+    if (!this.imageData || this.imageData.data !== this.data) {
+      this.imageData = new ImageData(this.data, this.width, this.height);
+    }
+    return this.imageData;
+  }
+}
@@ -0,0 +1,133 @@
+import { VNCPixelFormat } from '../types/vnc';
+import { VNCColourMap } from './ColourMap';
+
+/**
+ * Converts pixels in a negotiated VNCPixelFormat to RGB.
+ *
+ * Single pixels are returned as 0xRRGGBB numbers; runs of pixels are
+ * written as RGBA bytes ready for the framebuffer. Formats without true
+ * colour are looked up in the colour map.
+ */
+export class VNCPixelConverter {
+  readonly format: VNCPixelFormat;
+  readonly bytesPerPixel: number;
+  readonly colourMap: VNCColourMap;
+  private redTable: Uint8Array;
+  private greenTable: Uint8Array;
+  private blueTable: Uint8Array;
+  /** Byte offsets of r, g, b within a pixel for 8-bit-per-channel formats */
+  private byteOffsets: [number, number, number] | null;
+
+  constructor(format: VNCPixelFormat, colourMap: VNCColourMap = new VNCColourMap()) {
+    this.format = format;
+    this.bytesPerPixel = format.bitsPerPixel / 8;
+    this.colourMap = colourMap;
+    this.redTable = VNCPixelConverter.createScaleTable(format.redMax);
+    this.greenTable = VNCPixelConverter.createScaleTable(format.greenMax);
+    this.blueTable = VNCPixelConverter.createScaleTable(format.blueMax);
+    this.byteOffsets = this.findByteOffsets();
+  }
+
+  /**
+   * Read a raw pixel value honouring the format's byte order
+   */
+  readPixel(src: Uint8Array, offset: number): number {
+    const { bigEndian } = this.format;
+
+    switch (this.bytesPerPixel) {
+      case 1:
+        return src[offset];
+      case 2:
+        return bigEndian
+          ? (src[offset] << 8) | src[offset + 1]
+          : src[offset] | (src[offset + 1] << 8);
+      default:
+        return bigEndian
+          ? ((src[offset] << 24) | (src[offset + 1] << 16) | (src[offset + 2] << 8) | src[offset + 3]) >>> 0
+          : (src[offset] | (src[offset + 1] << 8) | (src[offset + 2] << 16) | (src[offset + 3] << 24)) >>> 0;
+    }
+  }
+
+  /**
+   * Convert a raw pixel value to 0xRRGGBB
+   */
+  toRGB(value: number): number {
+    if (!this.format.trueColor) {
+      return this.colourMap.get(value);
+    }
+
+    const { redMax, greenMax, blueMax, redShift, greenShift, blueShift } = this.format;
+    const r = this.redTable[(value >>> redShift) & redMax];
+    const g = this.greenTable[(value >>> greenShift) & greenMax];
+    const b = this.blueTable[(value >>> blueShift) & blueMax];
+    return (r << 16) | (g << 8) | b;
+  }
+
+  /**
+   * Read one pixel and convert it to 0xRRGGBB
+   */
+  readRGB(src: Uint8Array, offset: number): number {
+    return this.toRGB(this.readPixel(src, offset));
+  }
+
+  /**
+   * Convert `count` pixels from `src` into RGBA bytes in `dst`
+   */
+  convert(
+    src: Uint8Array,
+    srcOffset: number,
+    count: number,
+    dst: Uint8Array | Uint8ClampedArray,
+    dstOffset: number = 0
+  ): void {
+    const bpp = this.bytesPerPixel;
+
+    if (this.byteOffsets) {
+      const [r, g, b] = this.byteOffsets;
+      for (let i = 0; i < count; i++) {
+        dst[dstOffset] = src[srcOffset + r];
+        dst[dstOffset + 1] = src[srcOffset + g];
+        dst[dstOffset + 2] = src[srcOffset + b];
+        dst[dstOffset + 3] = 255;
+        srcOffset += bpp;
+        dstOffset += 4;
+      }
+      return;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const rgb = this.readRGB(src, srcOffset);
+      dst[dstOffset] = rgb >> 16;
+      dst[dstOffset + 1] = (rgb >> 8) & 0xff;
+      dst[dstOffset + 2] = rgb & 0xff;
+      dst[dstOffset + 3] = 255;
+      srcOffset += bpp;
+      dstOffset += 4;
+    }
+  }
+
+  /**
+   * For 32-bit formats with byte-aligned 8-bit channels, work out where
+   * each channel sits so conversion can copy bytes directly
+   */
+  private findByteOffsets(): [number, number, number] | null {
+    const { trueColor, bitsPerPixel, bigEndian, redMax, greenMax, blueMax, redShift, greenShift, blueShift } = this.format;
+
+    if (!trueColor || bitsPerPixel !== 32 || redMax !== 255 || greenMax !== 255 || blueMax !== 255) return null;
+    if (redShift % 8 || greenShift % 8 || blueShift % 8) return null;
+
+    const toOffset = (shift: number) => (bigEndian ? 3 - shift / 8 : shift / 8);
+    return [toOffset(redShift), toOffset(greenShift), toOffset(blueShift)];
+  }
+
+  /**
+   * Build a lookup table scaling 0..max to 0..255
+   */
+  private static createScaleTable(max: number): Uint8Array {
+    const table = new Uint8Array(max + 1);
+    for (let i = 0; i <= max; i++) {
+      table[i] = max === 0 ? 0 : Math.round((i * 255) / max);
+    }
+    return table;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Buffered receive queue for the RFB byte stream.
+ *
+ * WebSocket proxies such as websockify split and merge frames freely, so a
+ * single frame may carry part of a message or several messages at once.
+ * Incoming frames are appended here and parsers pull exactly the bytes they
+ * need, using mark()/rewind() to back out when a message is still incomplete.
+ */
+export class VNCReceiveQueue {
+  private buffer: Uint8Array;
+  private readPos: number = 0;
+  private writePos: number = 0;
+  private markPos: number = 0;
+
+  constructor(initialSize: number = 4096) {
+    this.buffer = new Uint8Array(initialSize);
+  }
+
+  /**
+   * Number of unread bytes in the queue
+   */
+  get length(): number {
+    return this.writePos - this.readPos;
+  }
+
+  /**
+   * Append received data to the queue
+   */
+  push(data: ArrayBuffer | Uint8Array): void {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (bytes.length === 0) return;
+
+    if (this.writePos + bytes.length > this.buffer.length) {
+      this.compact(bytes.length);
+    }
+
+    this.buffer.set(bytes, this.writePos);
+    this.writePos += bytes.length;
+  }
+
+  /**
+   * Drop all buffered data
+   */
+  clear(): void {
+    this.readPos = 0;
+    this.writePos = 0;
+    this.markPos = 0;
+  }
+
+  /**
+   * Check whether at least `count` unread bytes are available
+   */
+  has(count: number): boolean {
+    return this.length >= count;
+  }
+
+  /**
+   * Remember the current read position
+   */
+  mark(): void {
+    this.markPos = this.readPos;
+  }
+
+  /**
+   * Return to the position saved by mark(), un-reading everything since
+   */
+  rewind(): void {
+    this.readPos = this.markPos;
+  }
+
+  /**
+   * Skip `count` bytes
+   */
+  skip(count: number): void {
+    this.ensure(count);
+    this.readPos += count;
+  }
+
+  /**
+   * Read uint8 without consuming it
+   */
+  peekUint8(offset: number = 0): number {
+    this.ensure(offset + 1);
+    return this.buffer[this.readPos + offset];
+  }
+
+  /**
+   * Read uint16 big endian without consuming it
+   */
+  peekUint16(offset: number = 0): number {
+    this.ensure(offset + 2);
+    const pos = this.readPos + offset;
+    return (this.buffer[pos] << 8) | this.buffer[pos + 1];
+  }
+
+  /**
+   * Read uint32 big endian without consuming it
+   */
+  peekUint32(offset: number = 0): number {
+    this.ensure(offset + 4);
+    const pos = this.readPos + offset;
+    return ((this.buffer[pos] << 24) |
+      (this.buffer[pos + 1] << 16) |
+      (this.buffer[pos + 2] << 8) |
+      this.buffer[pos + 3]) >>> 0;
+  }
+
+  /**
+   * Read uint8
+   */
+  readUint8(): number {
+    const value = this.peekUint8();
+    this.readPos += 1;
+    return value;
+  }
+
+  /**
+   * Read uint16 big endian
+   */
+  readUint16(): number {
+    const value = this.peekUint16();
+    this.readPos += 2;
+    return value;
+  }
+
+  /**
+   * Read uint32 big endian
+   */
+  readUint32(): number {
+    const value = this.peekUint32();
+    this.readPos += 4;
+    return value;
+  }
+
+  /**
+   * Read int32 big endian
+   */
+  readInt32(): number {
+    return this.readUint32() | 0;
+  }
+
+  /**
+   * Read `count` bytes into a new array that owns its buffer
+   */
+  readBytes(count: number): Uint8Array {
+    return this.readView(count).slice();
+  }
+
+  /**
+   * Read `count` bytes as a view into the queue's storage.
+   * The view is only valid until the next push().
+   */
+  readView(count: number): Uint8Array {
+    this.ensure(count);
+    const view = this.buffer.subarray(this.readPos, this.readPos + count);
+    this.readPos += count;
+    return view;
+  }
+
+  /**
+   * Read `count` bytes as a string using the given decoder
+   */
+  readString(count: number, encoding: string = 'utf-8'): string {
+    return new TextDecoder(encoding).decode(this.readView(count));
+  }
+
+  /**
+   * Throw if fewer than `count` bytes are available.
+   * Parsers are expected to check has() first, so this signals a parser bug.
+   */
+  private ensure(count: number): void {
+    if (this.length < count) {
+      throw new Error(`Receive queue underrun: need ${count} bytes, have ${this.length}`);
+    }
+  }
+
+  /**
+   * Move unread data to the front of the buffer, growing it if needed
+   */
+  private compact(incoming: number): void {
+    const unread = this.length;
+    const required = unread + incoming;
+    let target = this.buffer;
+
+    if (required > this.buffer.length) {
+      let size = this.buffer.length * 2;
+      while (size < required) {
+        size *= 2;
+      }
+      target = new Uint8Array(size);
+    }
+
+    target.set(this.buffer.subarray(this.readPos, this.writePos), 0);
+    this.buffer = target;
+    this.readPos = 0;
+    this.writePos = unread;
+    this.markPos = 0;
+  }
+}
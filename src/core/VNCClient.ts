@@ -3,16 +3,70 @@ import {
   VNCConnectionState,
   VNCEvent,
   VNCEventHandler,
+  VNCFramebufferUpdate,
   VNCKeyEvent,
   VNCPointerEvent,
+  VNCRect,
   VNCServerInitMessage,
-  VNCPixelFormat
+  VNCPixelFormat,
+  VNCImageDecoder,
+  VNCScreen,
+  VNCDesktopSizeResult
 } from '../types/vnc';
-import { VNCProtocolUtils } from '../utils/protocol';
+import { VNCClipboardFlag, VNCEncoding, VNCProtocolUtils } from '../utils/protocol';
+import { VNCReceiveQueue } from './ReceiveQueue';
+import { VNCFramebuffer } from './Framebuffer';
+import { VNCPixelConverter } from './PixelConverter';
+import { VNCColourMap } from './ColourMap';
+import { VNCDecoder } from '../decoders/types';
+import { RawDecoder } from '../decoders/RawDecoder';
+import { CopyRectDecoder } from '../decoders/CopyRectDecoder';
+import { HextileDecoder } from '../decoders/HextileDecoder';
+import { CoRREDecoder, RREDecoder } from '../decoders/RREDecoder';
+import { ZRLEDecoder } from '../decoders/ZRLEDecoder';
+import { TightDecoder, TightPNGDecoder } from '../decoders/TightDecoder';
+import { readCursor } from '../decoders/cursor';
+import { canDecodeImages, decodeImage } from '../utils/image';
+import { VNCInflator } from '../utils/inflate';
+import { createZlibStream } from '../utils/deflate';
+import { VNCKeysym, keyToKeysym } from '../utils/keysym';
+import { codeToQEMUKeycode } from '../utils/scancodes';
+
+/** ExtendedDesktopSize reason: the change was requested by this client */
+const DESKTOP_SIZE_REASON_CLIENT = 1;
+
+const DESKTOP_SIZE_ERRORS: Record<number, string> = {
+  1: 'Resize is administratively prohibited',
+  2: 'Out of resources',
+  3: 'Invalid screen layout'
+};
+
+const CLIPBOARD_FORMAT_MASK = 0xffff;
+const CLIPBOARD_ACTION_MASK = 0xff000000;
+/** Largest clipboard text accepted from the server */
+const CLIPBOARD_MAX_SIZE = 10 * 1024 * 1024;
+
+/** Modifier keysyms to release when a key event reports their flag as up */
+const MODIFIER_KEYSYMS: Array<['altKey' | 'ctrlKey' | 'shiftKey' | 'metaKey', number[]]> = [
+  ['shiftKey', [VNCKeysym.Shift_L, VNCKeysym.Shift_R]],
+  ['ctrlKey', [VNCKeysym.Control_L, VNCKeysym.Control_R]],
+  ['altKey', [VNCKeysym.Alt_L, VNCKeysym.Alt_R]],
+  ['metaKey', [VNCKeysym.Super_L, VNCKeysym.Super_R, VNCKeysym.Meta_L, VNCKeysym.Meta_R]]
+];
+
+/** Pointer move interval when requestAnimationFrame isn't available */
+const POINTER_FRAME_INTERVAL = 1000 / 60;
+
+/** A key held down on the server, as it was sent when pressed */
+interface VNCPressedKey {
+  keysym: number;
+  keycode: number;
+}
 
 export class VNCClient {
   private ws: WebSocket | null = null;
-  private options: Required<VNCClientOptions>;
+  private options: Required<Omit<VNCClientOptions, 'imageDecoder' | 'pixelFormat'>>;
+  private imageDecoder?: VNCImageDecoder;
   private state: VNCConnectionState;
   private eventHandlers: Map<string, VNCEventHandler[]> = new Map();
   private serverInit: VNCServerInitMessage | null = null;
@@ -20,7 +74,33 @@ export class VNCClient {
   private connectionTimeout: ReturnType<typeof setTimeout> | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 3;
-  private vncState: 'version' | 'security' | 'auth' | 'init' | 'connected' = 'version';
+  private vncState: 'version' | 'security' | 'auth' | 'security-result' | 'init' | 'connected' = 'version';
+  private receiveQueue: VNCReceiveQueue = new VNCReceiveQueue();
+  private updateRectsRemaining: number = 0;
+  /** Bytes left of an oversized ServerCutText being discarded as they arrive */
+  private cutTextSkipRemaining: number = 0;
+  private updateRects: VNCRect[] = [];
+  private framebuffer: VNCFramebuffer | null = null;
+  private pixelConverter: VNCPixelConverter;
+  private colourMap: VNCColourMap = new VNCColourMap();
+  private decoders: Map<number, VNCDecoder> = new Map();
+  private decodePending: boolean = false;
+  private decodeGeneration: number = 0;
+  private screens: VNCScreen[] = [];
+  private supportsSetDesktopSize: boolean = false;
+  private supportsQEMUExtendedKeyEvent: boolean = false;
+  /** Extended Clipboard actions the server accepts; 0 until it sends caps */
+  private serverClipboardActions: number = 0;
+  private serverClipboardTextLimit: number = 0;
+  private clipboardText: string = '';
+  /** Keys held down, by KeyboardEvent.code, so each release matches its press */
+  private keysDown: Map<string, VNCPressedKey> = new Map();
+  /** Latest pointer move not yet sent, in framebuffer coordinates */
+  private pendingPointer: { x: number; y: number } | null = null;
+  private pointerButtons: number = 0;
+  private lastPointerTime: number = 0;
+  private pointerTimer: ReturnType<typeof setTimeout> | null = null;
+  private pointerFrame: number | null = null;
   
   constructor(options: VNCClientOptions) {
     this.options = {
@@ -28,8 +108,12 @@ export class VNCClient {
       username: options.username || '',
       password: options.password || '',
       viewOnly: options.viewOnly || false,
-      quality: options.quality || 6,
-      compression: options.compression || 2,
+      quality: this.clampLevel(options.quality ?? 6),
+      compression: this.clampLevel(options.compression ?? 2),
+      encodings: options.encodings || VNCProtocolUtils.getDefaultEncodings(),
+      preferTightPNG: options.preferTightPNG || false,
+      localCursor: options.localCursor ?? true,
+      pointerRateLimit: options.pointerRateLimit ?? 'frame',
       autoResize: options.autoResize || true,
       scale: options.scale || 1.0,
       timeout: options.timeout || 10000,
@@ -45,8 +129,19 @@ export class VNCClient {
       height: 0
     };
 
-    this.pixelFormat = VNCProtocolUtils.getDefaultPixelFormat();
-    
+    // Sent to the server right after ServerInit, so it applies to every update
+    this.pixelFormat = VNCProtocolUtils.resolvePixelFormat(options.pixelFormat || 'true-color-32');
+    this.pixelConverter = new VNCPixelConverter(this.pixelFormat, this.colourMap);
+
+    this.decoders.set(VNCEncoding.Raw, new RawDecoder());
+    this.decoders.set(VNCEncoding.CopyRect, new CopyRectDecoder());
+    this.decoders.set(VNCEncoding.Hextile, new HextileDecoder());
+    this.decoders.set(VNCEncoding.RRE, new RREDecoder());
+    this.decoders.set(VNCEncoding.CoRRE, new CoRREDecoder());
+    this.decoders.set(VNCEncoding.ZRLE, new ZRLEDecoder());
+    this.decoders.set(VNCEncoding.Tight, new TightDecoder());
+    this.decoders.set(VNCEncoding.TightPNG, new TightPNGDecoder());
+    this.imageDecoder = options.imageDecoder || (canDecodeImages() ? decodeImage : undefined);
   }
 
   /**
@@ -126,10 +221,14 @@ export class VNCClient {
    */
   disconnect(): void {
     this.log('Disconnecting...');
+
+    // Don't leave keys held down on the server
+    this.releaseAllKeys();
     
     // Reset reconnection attempts and VNC state
     this.reconnectAttempts = 0;
     this.vncState = 'version';
+    this.resetProtocolState();
     
     if (this.connectionTimeout) {
       clearTimeout(this.connectionTimeout);
@@ -170,25 +269,228 @@ export class VNCClient {
   sendKeyEvent(event: VNCKeyEvent): void {
     if (!this.state.connected || this.options.viewOnly) return;
 
-    // All connections use standard VNC key events
-    const keyCode = this.keyToVNCKey(event.key, event.code);
-    const message = VNCProtocolUtils.createKeyEvent(event.down, keyCode);
-    this.sendMessage(message);
+    const id = event.code || event.key;
+    this.releaseStaleModifiers(event, id);
+
+    // Release what was pressed, even if the key now maps to something else
+    const pressed = this.keysDown.get(id);
+    if (!event.down && pressed) {
+      this.keysDown.delete(id);
+      this.sendKey(false, pressed.keysym, pressed.keycode);
+      return;
+    }
+
+    const keysym = keyToKeysym(event.key, event.code);
+
+    // With a scancode the server applies its own layout, so even keys
+    // without a keysym (such as dead keys) can be sent
+    const keycode = this.supportsQEMUExtendedKeyEvent ? codeToQEMUKeycode(event.code) : 0;
+    if (!keysym && !keycode) {
+      this.log('No keysym for key:', event.key, event.code);
+      return;
+    }
+
+    if (event.down) {
+      this.keysDown.set(id, { keysym, keycode });
+    }
+    this.sendKey(event.down, keysym, keycode);
+  }
+
+  /**
+   * Press keys in order and release them in reverse, for shortcuts the local
+   * OS would intercept. Keys are KeyboardEvent.key names, e.g.
+   * `['Control', 'Alt', 'Delete']` or `['Meta', 'r']`.
+   */
+  sendKeyCombo(keys: string[]): void {
+    const unknown = keys.find(key => !keyToKeysym(key));
+    if (unknown !== undefined) {
+      throw new Error(`No keysym for key: ${unknown}`);
+    }
+
+    keys.forEach(key => this.sendKeyEvent({ key, code: '', down: true }));
+    [...keys].reverse().forEach(key => this.sendKeyEvent({ key, code: '', down: false }));
   }
 
+  /**
+   * Send Ctrl+Alt+Del
+   */
+  sendCtrlAltDel(): void {
+    this.sendKeyCombo(['Control', 'Alt', 'Delete']);
+  }
+
+  /**
+   * Release every key still held down on the server. Called automatically
+   * when the window loses focus or is hidden, and on disconnect.
+   */
+  releaseAllKeys(): void {
+    const pressed = Array.from(this.keysDown.values()).reverse();
+    this.keysDown.clear();
+    if (!this.state.connected) return;
+
+    pressed.forEach(key => this.sendKey(false, key.keysym, key.keycode));
+  }
+
+  /**
+   * Release modifiers the event reports as up, which happens when they
+   * were released while another window had focus
+   */
+  private releaseStaleModifiers(event: VNCKeyEvent, id: string): void {
+    for (const [flag, keysyms] of MODIFIER_KEYSYMS) {
+      if (event[flag] !== false) continue;
+
+      this.keysDown.forEach((pressed, pressedId) => {
+        if (pressedId !== id && keysyms.includes(pressed.keysym)) {
+          this.keysDown.delete(pressedId);
+          this.sendKey(false, pressed.keysym, pressed.keycode);
+        }
+      });
+    }
+  }
+
+  private sendKey(down: boolean, keysym: number, keycode: number): void {
+    if (keycode) {
+      this.sendMessage(VNCProtocolUtils.createQEMUExtendedKeyEvent(down, keysym, keycode));
+    } else {
+      this.sendMessage(VNCProtocolUtils.createKeyEvent(down, keysym));
+    }
+  }
+
+  private handleWindowBlur = (): void => {
+    this.releaseAllKeys();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.releaseAllKeys();
+    }
+  };
+
   /**
    * Send pointer event
    */
   sendPointerEvent(event: VNCPointerEvent): void {
     if (!this.state.connected || this.options.viewOnly) return;
 
-    // All connections use standard VNC pointer events
-    const message = VNCProtocolUtils.createPointerEvent(
-      event.buttons,
-      Math.floor(event.x / this.options.scale),
-      Math.floor(event.y / this.options.scale)
-    );
+    const x = Math.floor(event.x / this.options.scale);
+    const y = Math.floor(event.y / this.options.scale);
+
+    // Button changes go out at once, after the move they follow
+    if (event.buttons !== this.pointerButtons) {
+      this.flushPointer();
+      this.pointerButtons = event.buttons;
+      this.writePointer(x, y);
+      return;
+    }
+
+    const rateLimit = this.options.pointerRateLimit;
+    if (rateLimit === 0) {
+      this.writePointer(x, y);
+      return;
+    }
+
+    // Moves are merged, so only the latest position is sent
+    this.pendingPointer = { x, y };
+    if (this.pointerTimer || this.pointerFrame !== null) return;
+
+    if (rateLimit === 'frame') {
+      if (typeof requestAnimationFrame !== 'undefined') {
+        this.pointerFrame = requestAnimationFrame(() => {
+          this.pointerFrame = null;
+          this.flushPointer();
+        });
+      } else {
+        this.schedulePointerFlush(POINTER_FRAME_INTERVAL);
+      }
+      return;
+    }
+
+    const wait = this.lastPointerTime + rateLimit - Date.now();
+    if (wait <= 0) {
+      this.flushPointer();
+    } else {
+      this.schedulePointerFlush(wait);
+    }
+  }
+
+  private schedulePointerFlush(delay: number): void {
+    this.pointerTimer = setTimeout(() => {
+      this.pointerTimer = null;
+      this.flushPointer();
+    }, delay);
+  }
+
+  /**
+   * Send the pending pointer move, if any
+   */
+  private flushPointer(): void {
+    this.cancelPointerFlush();
+    if (!this.pendingPointer) return;
+
+    const { x, y } = this.pendingPointer;
+    this.writePointer(x, y);
+  }
+
+  private cancelPointerFlush(): void {
+    if (this.pointerTimer) {
+      clearTimeout(this.pointerTimer);
+      this.pointerTimer = null;
+    }
+    if (this.pointerFrame !== null) {
+      cancelAnimationFrame(this.pointerFrame);
+      this.pointerFrame = null;
+    }
+  }
+
+  private writePointer(x: number, y: number): void {
+    this.pendingPointer = null;
+    this.lastPointerTime = Date.now();
+    this.sendMessage(VNCProtocolUtils.createPointerEvent(this.pointerButtons, x, y));
+  }
+
+  /**
+   * Send clipboard text to the server
+   */
+  sendClipboard(text: string): void {
+    if (!this.state.connected || this.options.viewOnly) return;
+
+    this.clipboardText = text;
+    if (this.serverClipboardActions & VNCClipboardFlag.Notify) {
+      // Announce the text; the server sends a request when it wants it
+      this.sendMessage(VNCProtocolUtils.createExtendedClipboard(
+        VNCClipboardFlag.Notify | (text ? VNCClipboardFlag.Text : 0)
+      ));
+    } else if (this.serverClipboardActions & VNCClipboardFlag.Provide) {
+      this.provideClipboard();
+    } else {
+      this.sendMessage(VNCProtocolUtils.createClientCutText(VNCProtocolUtils.latin1Encode(text)));
+    }
+  }
+
+  /**
+   * Ask the server to change the remote desktop size. The outcome arrives
+   * as a `desktop-size` event. Returns false if the server doesn't support
+   * SetDesktopSize or the desktop already has this size.
+   */
+  requestDesktopSize(width: number, height: number): boolean {
+    if (!this.state.connected || !this.supportsSetDesktopSize) return false;
+
+    width = Math.max(1, Math.min(0xffff, Math.floor(width)));
+    height = Math.max(1, Math.min(0xffff, Math.floor(height)));
+    if (width === this.state.width && height === this.state.height) return false;
+
+    // Keep the first screen's id and flags and make it cover the whole desktop
+    const screen = this.screens[0];
+    const message = VNCProtocolUtils.createSetDesktopSize(width, height, [{
+      id: screen?.id ?? 0,
+      x: 0,
+      y: 0,
+      width,
+      height,
+      flags: screen?.flags ?? 0
+    }]);
+    this.log('Requesting desktop size:', width, height);
     this.sendMessage(message);
+    return true;
   }
 
   /**
@@ -207,6 +509,13 @@ export class VNCClient {
     this.sendMessage(message);
   }
 
+  /**
+   * Get the client-side framebuffer, or null before ServerInit
+   */
+  getFramebuffer(): VNCFramebuffer | null {
+    return this.framebuffer;
+  }
+
   /**
    * Get current connection state
    */
@@ -244,7 +553,8 @@ export class VNCClient {
     const handlers = this.eventHandlers.get(type);
     if (handlers) {
       const event: VNCEvent = { type: type as any, data };
-      handlers.forEach(handler => handler(event));
+      // Copy so handlers that remove themselves don't skip the next one
+      [...handlers].forEach(handler => handler(event));
     }
 
     if (this.options.debug) {
@@ -301,6 +611,8 @@ export class VNCClient {
   private handleConnectionClose(event: CloseEvent): void {
     const wasConnected = this.state.connected;
     this.setState({ connected: false, connecting: false });
+    // The socket is gone, so held keys are forgotten rather than released
+    this.resetProtocolState();
     
     // Provide meaningful error messages based on close code
     let errorMessage = '';
@@ -435,7 +747,7 @@ export class VNCClient {
   }
 
   /**
-   * Handle server messages based on VNC protocol state
+   * Handle incoming WebSocket data
    */
   private handleServerMessage(data: ArrayBuffer): void {
     // Check if connection is still valid before processing messages
@@ -444,168 +756,189 @@ export class VNCClient {
       return;
     }
 
-    this.log(`Received message in state '${this.vncState}', length: ${data.byteLength}`);
+    this.log(`Received data in state '${this.vncState}', length: ${data.byteLength}`);
+    this.receiveQueue.push(data);
     
     try {
-      switch (this.vncState) {
-        case 'version':
-          this.handleVersionResponse(data);
-          break;
-        case 'security':
-          this.handleSecurityResponse(data);
-          break;
-        case 'auth':
-          this.handleAuthResponse(data);
-          break;
-        case 'init':
-          this.handleServerInit(data);
-          break;
-        case 'connected':
-          this.handleProtocolMessage(data);
-          break;
-        default:
-          this.log('Unexpected VNC state:', this.vncState);
-      }
+      this.processReceiveQueue();
     } catch (error) {
       this.log('Error handling server message:', error);
-      this.emit('error', { message: `Protocol error: ${(error as Error).message}` });
+      this.handleProtocolError(error as Error);
     }
   }
 
   /**
-   * Handle version response from server
+   * Drop the connection after a parse failure. The stream can't be
+   * resynchronised, so anything read after it would be misparsed.
    */
-  private handleVersionResponse(data: ArrayBuffer): void {
-    if (data.byteLength >= 12) {
-      const response = new TextDecoder().decode(data);
-      this.log('Received server version:', response.trim());
-      
-      // Now respond with our version
-      this.handleProtocolVersion();
-      
-      this.vncState = 'security';
-      // Server will send security types next
+  private handleProtocolError(error: Error): void {
+    const message = `Protocol error: ${error.message}`;
+    this.disconnect();
+    this.setState({ error: message });
+    this.emit('error', { message });
+  }
+
+  /**
+   * Parse as many complete messages as the receive queue holds.
+   * Each handler returns false when it needs more data, in which case
+   * everything it read is rewound and parsing resumes on the next frame.
+   */
+  private processReceiveQueue(): void {
+    while (this.receiveQueue.length > 0 && !this.decodePending) {
+      this.receiveQueue.mark();
+
+      if (!this.handleQueuedMessage()) {
+        this.receiveQueue.rewind();
+        break;
+      }
     }
   }
 
+  /**
+   * Dispatch the next queued message based on VNC protocol state
+   */
+  private handleQueuedMessage(): boolean {
+    switch (this.vncState) {
+      case 'version':
+        return this.handleVersionResponse();
+      case 'security':
+        return this.handleSecurityResponse();
+      case 'auth':
+        return this.handleAuthChallenge();
+      case 'security-result':
+        return this.handleSecurityResult();
+      case 'init':
+        return this.handleServerInit();
+      case 'connected':
+        return this.handleProtocolMessage();
+      default:
+        throw new Error(`Unexpected VNC state: ${this.vncState}`);
+    }
+  }
+
+  /**
+   * Handle version response from server
+   */
+  private handleVersionResponse(): boolean {
+    if (!this.receiveQueue.has(12)) return false;
+
+    const response = this.receiveQueue.readString(12, 'latin1');
+    this.log('Received server version:', response.trim());
+    
+    // Now respond with our version
+    this.handleProtocolVersion();
+    
+    this.vncState = 'security';
+    // Server will send security types next
+    return true;
+  }
+
   /**
    * Handle security types from server
    */
-  private handleSecurityResponse(data: ArrayBuffer): void {
-    if (data.byteLength >= 2) {
-      const view = new DataView(data);
-      const numSecTypes = view.getUint8(0);
-      
-      if (numSecTypes === 0) {
-        // Security handshake failed
-        const reasonLength = view.getUint32(1, false);
-        if (data.byteLength >= 5 + reasonLength) {
-          const reason = new TextDecoder().decode(new Uint8Array(data, 5, reasonLength));
-          throw new Error(`Security handshake failed: ${reason}`);
-        }
-        throw new Error('Security handshake failed: Unknown reason');
-      }
+  private handleSecurityResponse(): boolean {
+    const queue = this.receiveQueue;
+    if (!queue.has(1)) return false;
 
-      // Look for VNC authentication (type 2) or None (type 1)
-      const secTypes: number[] = [];
-      for (let i = 0; i < numSecTypes; i++) {
-        if (data.byteLength > 1 + i) {
-          secTypes.push(view.getUint8(1 + i));
-        }
-      }
+    const numSecTypes = queue.readUint8();
+    
+    if (numSecTypes === 0) {
+      // Security handshake failed
+      if (!queue.has(4)) return false;
+      const reasonLength = queue.readUint32();
+      if (!queue.has(reasonLength)) return false;
+      const reason = queue.readString(reasonLength);
+      throw new Error(`Security handshake failed: ${reason || 'Unknown reason'}`);
+    }
 
-      this.log('Available security types:', secTypes);
+    if (!queue.has(numSecTypes)) return false;
 
-      let chosenSecType = 1; // None by default
-      if (this.options.password && secTypes.includes(2)) {
-        chosenSecType = 2; // VNC Authentication
-        this.log('Using VNC authentication');
-      } else if (secTypes.includes(1)) {
-        chosenSecType = 1; // None
-        this.log('Using no authentication');
-      } else {
-        throw new Error('No supported security type available');
-      }
+    // Look for VNC authentication (type 2) or None (type 1)
+    const secTypes: number[] = [];
+    for (let i = 0; i < numSecTypes; i++) {
+      secTypes.push(queue.readUint8());
+    }
 
-      // Send chosen security type
-      const response = new ArrayBuffer(1);
-      new DataView(response).setUint8(0, chosenSecType);
-      this.sendMessage(response);
+    this.log('Available security types:', secTypes);
 
-      if (chosenSecType === 2) {
-        this.vncState = 'auth';
-      } else {
-        this.vncState = 'init';
-        this.sendClientInit();
-      }
+    let chosenSecType = 1; // None by default
+    if (this.options.password && secTypes.includes(2)) {
+      chosenSecType = 2; // VNC Authentication
+      this.log('Using VNC authentication');
+    } else if (secTypes.includes(1)) {
+      chosenSecType = 1; // None
+      this.log('Using no authentication');
+    } else {
+      throw new Error('No supported security type available');
     }
+
+    // Send chosen security type
+    const response = new ArrayBuffer(1);
+    new DataView(response).setUint8(0, chosenSecType);
+    this.sendMessage(response);
+
+    // RFB 3.8 sends a SecurityResult even for the None security type
+    this.vncState = chosenSecType === 2 ? 'auth' : 'security-result';
+    return true;
   }
 
   /**
    * Handle VNC authentication challenge
    */
-  private handleAuthResponse(data: ArrayBuffer): void {
-    if (data.byteLength === 16) {
-      // VNC authentication challenge (16 bytes)
-      this.log('Received VNC auth challenge');
-      
-      if (!this.options.password) {
-        throw new Error('VNC authentication required but no password provided');
-      }
+  private handleAuthChallenge(): boolean {
+    // VNC authentication challenge (16 bytes)
+    if (!this.receiveQueue.has(16)) return false;
+
+    this.log('Received VNC auth challenge');
+    
+    if (!this.options.password) {
+      throw new Error('VNC authentication required but no password provided');
+    }
 
-      this.log('Using password for VNC auth, length:', this.options.password.length);
+    this.log('Using password for VNC auth, length:', this.options.password.length);
 
-      // Encrypt the challenge with the password using VNC DES
-      const challenge = new Uint8Array(data);
-      this.log('Challenge received (hex):', Array.from(challenge).map(b => b.toString(16).padStart(2, '0')).join(' '));
-      
-      const encrypted = this.vncEncrypt(this.options.password, challenge);
-      this.log('Encrypted response (hex):', Array.from(encrypted).map(b => b.toString(16).padStart(2, '0')).join(' '));
-      
-      this.sendMessage(encrypted.buffer);
-      
-      // Wait for auth result
-      return;
-    } else if (data.byteLength === 4) {
-      // Authentication result (4 bytes)
-      const result = new DataView(data).getUint32(0, false);
-      if (result === 0) {
-        this.log('VNC authentication successful');
-        this.vncState = 'init';
-        this.sendClientInit();
-      } else {
-        throw new Error('VNC authentication failed');
-      }
-    } else if (data.byteLength >= 8) {
-      // Authentication result with reason (4 bytes result + 4 bytes length + reason text)
-      const view = new DataView(data);
-      const result = view.getUint32(0, false);
-      
-      if (result === 0) {
-        this.log('VNC authentication successful');
-        this.vncState = 'init';
-        this.sendClientInit();
-      } else {
-        // Authentication failed with reason
-        const reasonLength = view.getUint32(4, false);
-        let reason = 'Authentication failed';
-        
-        if (data.byteLength >= 8 + reasonLength) {
-          const reasonBytes = new Uint8Array(data, 8, reasonLength);
-          reason = new TextDecoder().decode(reasonBytes).replace(/\0+$/, ''); // Remove null terminators
-        }
-        
-        this.log('VNC authentication failed:', reason);
-        // Close connection cleanly when auth fails
-        if (this.ws) {
-          this.ws.close(1000, 'Authentication failed');
-        }
-        throw new Error(`VNC authentication failed: ${reason}`);
-      }
-    } else {
-      this.log('Unexpected auth response length:', data.byteLength);
-      throw new Error(`Unexpected authentication response length: ${data.byteLength}`);
+    // Encrypt the challenge with the password using VNC DES
+    const challenge = this.receiveQueue.readBytes(16);
+    this.log('Challenge received (hex):', Array.from(challenge).map(b => b.toString(16).padStart(2, '0')).join(' '));
+    
+    const encrypted = this.vncEncrypt(this.options.password, challenge);
+    this.log('Encrypted response (hex):', Array.from(encrypted).map(b => b.toString(16).padStart(2, '0')).join(' '));
+    
+    this.sendMessage(encrypted.buffer);
+    
+    // Wait for auth result
+    this.vncState = 'security-result';
+    return true;
+  }
+
+  /**
+   * Handle SecurityResult message
+   */
+  private handleSecurityResult(): boolean {
+    const queue = this.receiveQueue;
+    if (!queue.has(4)) return false;
+
+    const result = queue.readUint32();
+    if (result === 0) {
+      this.log('VNC authentication successful');
+      this.vncState = 'init';
+      this.sendClientInit();
+      return true;
+    }
+
+    // Authentication failed with reason (4 bytes length + reason text)
+    if (!queue.has(4)) return false;
+    const reasonLength = queue.readUint32();
+    if (!queue.has(reasonLength)) return false;
+
+    const reason = queue.readString(reasonLength).replace(/\0+$/, '') || 'Authentication failed'; // Remove null terminators
+    
+    this.log('VNC authentication failed:', reason);
+    // Close connection cleanly when auth fails
+    if (this.ws) {
+      this.ws.close(1000, 'Authentication failed');
     }
+    throw new Error(`VNC authentication failed: ${reason}`);
   }
 
   /**
@@ -620,38 +953,486 @@ export class VNCClient {
   /**
    * Handle server init message
    */
-  private handleServerInit(data: ArrayBuffer): void {
-    if (data.byteLength >= 24) {
-      this.serverInit = VNCProtocolUtils.parseServerInit(data);
-      this.setState({
-        connected: true,
-        connecting: false,
-        serverName: this.serverInit.name,
-        width: this.serverInit.width,
-        height: this.serverInit.height
-      });
+  private handleServerInit(): boolean {
+    const queue = this.receiveQueue;
+    if (!queue.has(24)) return false;
+
+    const nameLength = queue.peekUint32(20);
+    if (!queue.has(24 + nameLength)) return false;
+
+    this.serverInit = VNCProtocolUtils.parseServerInit(queue.readBytes(24 + nameLength).buffer);
+    this.framebuffer = new VNCFramebuffer(this.serverInit.width, this.serverInit.height);
+    this.setState({
+      connected: true,
+      connecting: false,
+      serverName: this.serverInit.name,
+      width: this.serverInit.width,
+      height: this.serverInit.height
+    });
+
+    if (this.connectionTimeout) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
 
-      if (this.connectionTimeout) {
-        clearTimeout(this.connectionTimeout);
-        this.connectionTimeout = null;
+    this.vncState = 'connected';
+    this.log('VNC connection established:', this.serverInit);
+
+    // Key-up events never arrive once focus leaves the page
+    if (typeof window !== 'undefined') {
+      window.addEventListener('blur', this.handleWindowBlur);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    this.emit('connected');
+    
+    this.sendPixelFormat();
+    this.sendEncodings();
+
+    // Request initial framebuffer update
+    this.requestFramebufferUpdate(false);
+    return true;
+  }
+
+  /**
+   * Switch the server to the configured pixel format. Nothing has been
+   * requested yet, so every update from here on uses it.
+   */
+  private sendPixelFormat(): void {
+    this.log('Sending pixel format:', this.pixelFormat);
+    this.sendMessage(VNCProtocolUtils.createSetPixelFormat(this.pixelFormat));
+  }
+
+  /**
+   * Advertise supported encodings in order of preference
+   */
+  private sendEncodings(): void {
+    const encodings = this.options.encodings.filter(encoding => {
+      // TightPNG can't fall back to zlib, so it needs an image decoder
+      const supported = this.decoders.has(encoding) &&
+        (encoding !== VNCEncoding.TightPNG || this.imageDecoder !== undefined);
+      if (!supported) {
+        this.log('Ignoring unsupported encoding:', encoding);
       }
+      return supported;
+    });
 
-      this.vncState = 'connected';
-      this.log('VNC connection established:', this.serverInit);
-      this.emit('connected');
-      
-      // Request initial framebuffer update
-      this.requestFramebufferUpdate(false);
+    if (this.options.preferTightPNG && this.imageDecoder) {
+      const tightPNG = encodings.indexOf(VNCEncoding.TightPNG);
+      if (tightPNG !== -1) encodings.splice(tightPNG, 1);
+      const tight = encodings.indexOf(VNCEncoding.Tight);
+      encodings.splice(tight === -1 ? 0 : tight, 0, VNCEncoding.TightPNG);
     }
+
+    // The quality level is what allows Tight to send JPEG, so only ask for
+    // it when there's a way to decode JPEG
+    if (this.imageDecoder) {
+      encodings.push(VNCEncoding.QualityLevel0 + this.options.quality);
+    }
+    encodings.push(
+      VNCEncoding.CompressLevel0 + this.options.compression,
+      VNCEncoding.LastRect
+    );
+    encodings.push(VNCEncoding.DesktopSize, VNCEncoding.ExtendedDesktopSize, VNCEncoding.ExtendedClipboard);
+    encodings.push(VNCEncoding.QEMUExtendedKeyEvent);
+    if (this.options.localCursor) {
+      encodings.push(VNCEncoding.Cursor);
+    }
+
+    this.log('Sending encodings:', encodings);
+    this.sendMessage(VNCProtocolUtils.createSetEncodings(encodings));
   }
 
   /**
    * Handle VNC protocol messages after connection established
    */
-  private handleProtocolMessage(data: ArrayBuffer): void {
-    // Handle framebuffer updates, server cut text, etc.
-    // This is a simplified implementation
-    this.log('Received protocol message, length:', data.byteLength);
+  private handleProtocolMessage(): boolean {
+    if (this.updateRectsRemaining > 0) {
+      return this.handleFramebufferRect();
+    }
+    if (this.cutTextSkipRemaining > 0) {
+      const count = Math.min(this.cutTextSkipRemaining, this.receiveQueue.length);
+      this.receiveQueue.skip(count);
+      this.cutTextSkipRemaining -= count;
+      return true;
+    }
+
+    const messageType = this.receiveQueue.peekUint8();
+    switch (messageType) {
+      case 0:
+        return this.handleFramebufferUpdate();
+      case 1:
+        return this.handleSetColourMapEntries();
+      case 2:
+        this.receiveQueue.skip(1);
+        this.log('Received bell');
+        this.emit('bell');
+        return true;
+      case 3:
+        return this.handleServerCutText();
+      default:
+        throw new Error(`Unsupported server message type: ${messageType}`);
+    }
+  }
+
+  /**
+   * Handle FramebufferUpdate header; rectangles are parsed one at a time
+   * so a partially received update resumes where it left off
+   */
+  private handleFramebufferUpdate(): boolean {
+    if (!this.receiveQueue.has(4)) return false;
+
+    this.receiveQueue.skip(2); // message type + padding
+    this.updateRectsRemaining = this.receiveQueue.readUint16();
+    this.updateRects = [];
+    this.log('Framebuffer update, rectangles:', this.updateRectsRemaining);
+
+    if (this.updateRectsRemaining === 0) {
+      this.finishFramebufferUpdate();
+    }
+    return true;
+  }
+
+  /**
+   * Handle a single FramebufferUpdate rectangle
+   */
+  private handleFramebufferRect(): boolean {
+    const queue = this.receiveQueue;
+    if (!queue.has(12)) return false;
+
+    const rect: VNCRect = {
+      x: queue.readUint16(),
+      y: queue.readUint16(),
+      width: queue.readUint16(),
+      height: queue.readUint16()
+    };
+    const encoding = queue.readInt32();
+
+    switch (encoding) {
+      case VNCEncoding.LastRect:
+        // Server sent fewer rectangles than announced
+        this.updateRectsRemaining = 0;
+        this.finishFramebufferUpdate();
+        return true;
+      case VNCEncoding.Cursor:
+        return this.handleCursorRect(rect);
+      case VNCEncoding.DesktopSize:
+        this.resizeFramebuffer(rect.width, rect.height);
+        this.finishRect();
+        return true;
+      case VNCEncoding.ExtendedDesktopSize:
+        return this.handleExtendedDesktopSizeRect(rect);
+      case VNCEncoding.QEMUExtendedKeyEvent:
+        // Empty rect acknowledging that the server accepts scancodes
+        this.supportsQEMUExtendedKeyEvent = true;
+        this.finishRect();
+        return true;
+    }
+
+    const decoder = this.decoders.get(encoding);
+    if (!decoder || !this.framebuffer) {
+      throw new Error(`Unsupported encoding: ${encoding}`);
+    }
+
+    const result = decoder.decodeRect(rect, {
+      queue,
+      framebuffer: this.framebuffer,
+      pixels: this.pixelConverter,
+      decodeImage: this.imageDecoder
+    });
+    if (result === false) return false;
+
+    this.updateRects.push(rect);
+
+    if (result instanceof Promise) {
+      this.updateRectsRemaining--;
+      this.waitForDecode(result);
+    } else {
+      this.finishRect();
+    }
+    return true;
+  }
+
+  /**
+   * Handle a Cursor pseudo-rectangle; nothing in the framebuffer changes
+   */
+  private handleCursorRect(rect: VNCRect): boolean {
+    const cursor = readCursor(rect, this.receiveQueue, this.pixelConverter);
+    if (!cursor) return false;
+
+    this.emit('cursor', cursor);
+    this.finishRect();
+    return true;
+  }
+
+  /**
+   * Handle an ExtendedDesktopSize pseudo-rectangle. x is the reason for the
+   * change and y the status; a non-zero status means no change happened.
+   */
+  private handleExtendedDesktopSizeRect(rect: VNCRect): boolean {
+    const queue = this.receiveQueue;
+    if (!queue.has(4)) return false;
+
+    const count = queue.peekUint8();
+    if (!queue.has(4 + count * 16)) return false;
+    queue.skip(4);
+
+    const screens: VNCScreen[] = [];
+    for (let i = 0; i < count; i++) {
+      screens.push({
+        id: queue.readUint32(),
+        x: queue.readUint16(),
+        y: queue.readUint16(),
+        width: queue.readUint16(),
+        height: queue.readUint16(),
+        flags: queue.readUint32()
+      });
+    }
+
+    // The server answers the encoding advertisement with one of these,
+    // which tells us SetDesktopSize is available
+    this.supportsSetDesktopSize = true;
+
+    const status = rect.y;
+    if (status === 0) {
+      this.screens = screens;
+      this.resizeFramebuffer(rect.width, rect.height);
+    }
+
+    if (rect.x === DESKTOP_SIZE_REASON_CLIENT) {
+      // Reply to our own SetDesktopSize
+      const result: VNCDesktopSizeResult = {
+        success: status === 0,
+        status,
+        width: this.state.width,
+        height: this.state.height
+      };
+      if (status !== 0) {
+        result.message = DESKTOP_SIZE_ERRORS[status] || `Unknown error ${status}`;
+        this.log('Desktop resize failed:', result.message);
+      }
+      this.emit('desktop-size', result);
+    }
+
+    this.finishRect();
+    return true;
+  }
+
+  /**
+   * Apply a new desktop size from the server and mark the whole framebuffer dirty
+   */
+  private resizeFramebuffer(width: number, height: number): void {
+    if (!this.framebuffer) return;
+
+    this.framebuffer.resize(width, height);
+    this.updateRects.push({ x: 0, y: 0, width, height });
+
+    if (width !== this.state.width || height !== this.state.height) {
+      this.setState({ width, height });
+      this.log('Desktop resized:', width, height);
+      this.emit('resize', { width, height, screens: this.screens });
+    }
+  }
+
+  /**
+   * Count off a rectangle, finishing the update after the last one
+   */
+  private finishRect(): void {
+    this.updateRectsRemaining--;
+    if (this.updateRectsRemaining === 0) {
+      this.finishFramebufferUpdate();
+    }
+  }
+
+  /**
+   * Hold back further messages until an asynchronous image decode has drawn
+   * its rectangle, so later rectangles never land underneath it
+   */
+  private waitForDecode(decode: Promise<void>): void {
+    const generation = this.decodeGeneration;
+    this.decodePending = true;
+
+    decode.then(() => {
+      if (generation !== this.decodeGeneration) return;
+      this.decodePending = false;
+
+      if (this.updateRectsRemaining === 0) {
+        this.finishFramebufferUpdate();
+      }
+      this.processReceiveQueue();
+    }).catch(error => {
+      if (generation !== this.decodeGeneration) return;
+      this.log('Error decoding image:', error);
+      this.handleProtocolError(error as Error);
+    });
+  }
+
+  /**
+   * Report the dirty rectangles of a completed update and ask for the next one
+   */
+  private finishFramebufferUpdate(): void {
+    if (this.framebuffer && this.updateRects.length > 0) {
+      const update: VNCFramebufferUpdate = {
+        rectangles: this.updateRects,
+        imageData: this.framebuffer.getImageData()
+      };
+      this.emit('framebuffer-update', update);
+    }
+
+    this.updateRects = [];
+    this.requestFramebufferUpdate(true);
+  }
+
+  /**
+   * Handle SetColourMapEntries message
+   */
+  private handleSetColourMapEntries(): boolean {
+    const queue = this.receiveQueue;
+    if (!queue.has(6)) return false;
+
+    const numColours = queue.peekUint16(4);
+    if (!queue.has(6 + numColours * 6)) return false;
+
+    queue.skip(2);
+    const firstColour = queue.readUint16();
+    queue.skip(2);
+
+    // Components are 16-bit; keep the high byte of each
+    const colours: number[] = [];
+    for (let i = 0; i < numColours; i++) {
+      const r = queue.readUint16() >> 8;
+      const g = queue.readUint16() >> 8;
+      const b = queue.readUint16() >> 8;
+      colours.push((r << 16) | (g << 8) | b);
+    }
+
+    this.colourMap.set(firstColour, colours);
+    this.log('Received colour map entries:', firstColour, numColours);
+    return true;
+  }
+
+  /**
+   * Handle ServerCutText message. A negative length marks an Extended
+   * Clipboard message, whose payload starts with a flags word.
+   */
+  private handleServerCutText(): boolean {
+    const queue = this.receiveQueue;
+    if (!queue.has(8)) return false;
+
+    const signedLength = queue.peekUint32(4) | 0;
+    const length = Math.abs(signedLength);
+
+    // Don't buffer text we would refuse anyway; drop it as it streams in
+    if (length > CLIPBOARD_MAX_SIZE) {
+      queue.skip(8);
+      this.cutTextSkipRemaining = length;
+      this.log('Skipping oversized server cut text, length:', length);
+      return true;
+    }
+    if (!queue.has(8 + length)) return false;
+
+    queue.skip(8);
+    if (signedLength < 0) {
+      if (length < 4) {
+        throw new Error('Extended clipboard message too short');
+      }
+      this.handleExtendedClipboard(queue.readUint32(), queue.readBytes(length - 4));
+      return true;
+    }
+
+    const text = VNCProtocolUtils.latin1Decode(queue.readView(length));
+    this.log('Received server cut text, length:', length);
+    this.emit('server-cut-text', { text });
+    return true;
+  }
+
+  /**
+   * Handle an Extended Clipboard message from the server
+   */
+  private handleExtendedClipboard(flags: number, payload: Uint8Array): void {
+    const formats = flags & CLIPBOARD_FORMAT_MASK;
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+
+    if (flags & VNCClipboardFlag.Caps) {
+      this.serverClipboardActions = flags & CLIPBOARD_ACTION_MASK;
+      // One size limit follows for each format, lowest bit first; text is bit 0
+      this.serverClipboardTextLimit = formats & VNCClipboardFlag.Text && payload.length >= 4
+        ? view.getUint32(0, false)
+        : 0;
+      this.log('Extended clipboard caps, actions:', this.serverClipboardActions.toString(16));
+
+      const sizes = new Uint8Array(4);
+      new DataView(sizes.buffer).setUint32(0, CLIPBOARD_MAX_SIZE, false);
+      this.sendMessage(VNCProtocolUtils.createExtendedClipboard(
+        VNCClipboardFlag.Caps | VNCClipboardFlag.Request | VNCClipboardFlag.Peek |
+          VNCClipboardFlag.Notify | VNCClipboardFlag.Provide | VNCClipboardFlag.Text,
+        sizes
+      ));
+    } else if (flags & VNCClipboardFlag.Request) {
+      if (formats & VNCClipboardFlag.Text) {
+        this.provideClipboard();
+      }
+    } else if (flags & VNCClipboardFlag.Peek) {
+      this.sendMessage(VNCProtocolUtils.createExtendedClipboard(
+        VNCClipboardFlag.Notify | (this.clipboardText ? VNCClipboardFlag.Text : 0)
+      ));
+    } else if (flags & VNCClipboardFlag.Notify) {
+      if (formats & VNCClipboardFlag.Text && this.serverClipboardActions & VNCClipboardFlag.Request) {
+        this.sendMessage(VNCProtocolUtils.createExtendedClipboard(VNCClipboardFlag.Request | VNCClipboardFlag.Text));
+      }
+    } else if (flags & VNCClipboardFlag.Provide) {
+      this.handleClipboardProvide(formats, payload);
+    }
+  }
+
+  /**
+   * Read text from a Provide message: a zlib stream holding a size and
+   * data for each format in the flags, lowest bit first
+   */
+  private handleClipboardProvide(formats: number, payload: Uint8Array): void {
+    // Each format is a 4-byte size and its data; text is all we ask for
+    const data = new VNCInflator().inflate(payload, 0, 4 + CLIPBOARD_MAX_SIZE);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let offset = 0;
+
+    for (let bit = 0; bit < 16; bit++) {
+      if (!(formats & (1 << bit))) continue;
+      if (offset + 4 > data.length) break;
+
+      const size = view.getUint32(offset, false);
+      offset += 4;
+      if (offset + size > data.length) {
+        throw new Error('Extended clipboard data truncated');
+      }
+
+      if (1 << bit === VNCClipboardFlag.Text && size <= CLIPBOARD_MAX_SIZE) {
+        const text = new TextDecoder()
+          .decode(data.subarray(offset, offset + size))
+          .replace(/\0+$/, '')
+          .replace(/\r\n/g, '\n');
+        this.log('Received extended clipboard text, length:', text.length);
+        this.emit('server-cut-text', { text });
+      }
+      offset += size;
+    }
+  }
+
+  /**
+   * Send the current clipboard text as an Extended Clipboard Provide message
+   */
+  private provideClipboard(): void {
+    const text = new TextEncoder().encode(this.clipboardText.replace(/\r?\n/g, '\r\n') + '\0');
+    if (this.serverClipboardTextLimit > 0 && text.length > this.serverClipboardTextLimit) {
+      this.log('Clipboard text exceeds the server limit:', text.length, '>', this.serverClipboardTextLimit);
+      return;
+    }
+
+    const data = new Uint8Array(4 + text.length);
+    new DataView(data.buffer).setUint32(0, text.length, false);
+    data.set(text, 4);
+    this.sendMessage(VNCProtocolUtils.createExtendedClipboard(
+      VNCClipboardFlag.Provide | VNCClipboardFlag.Text,
+      createZlibStream(data)
+    ));
   }
 
   /**
@@ -927,33 +1708,39 @@ export class VNCClient {
   }
 
   /**
-   * Convert keyboard event to VNC key code
+   * Reset per-connection protocol and decoder state
    */
-  private keyToVNCKey(key: string, code: string): number {
-    // Simplified key mapping - real implementation would be more comprehensive
-    const keyMap: Record<string, number> = {
-      'Backspace': 0xff08,
-      'Tab': 0xff09,
-      'Enter': 0xff0d,
-      'Escape': 0xff1b,
-      'Delete': 0xffff,
-      'ArrowLeft': 0xff51,
-      'ArrowUp': 0xff52,
-      'ArrowRight': 0xff53,
-      'ArrowDown': 0xff54,
-      ' ': 0x20,
-    };
-
-    if (keyMap[key]) {
-      return keyMap[key];
-    }
-
-    // For regular characters
-    if (key.length === 1) {
-      return key.charCodeAt(0);
+  private resetProtocolState(): void {
+    this.receiveQueue.clear();
+    this.updateRectsRemaining = 0;
+    this.cutTextSkipRemaining = 0;
+    this.updateRects = [];
+    this.framebuffer = null;
+    this.decodePending = false;
+    this.decodeGeneration++;
+    this.screens = [];
+    this.colourMap.clear();
+    this.supportsSetDesktopSize = false;
+    this.supportsQEMUExtendedKeyEvent = false;
+    this.serverClipboardActions = 0;
+    this.serverClipboardTextLimit = 0;
+    this.clipboardText = '';
+    this.keysDown.clear();
+    this.cancelPointerFlush();
+    this.pendingPointer = null;
+    this.pointerButtons = 0;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('blur', this.handleWindowBlur);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
     }
+    this.decoders.forEach(decoder => decoder.reset?.());
+  }
 
-    return 0;
+  /**
+   * Clamp a quality or compression level to 0-9
+   */
+  private clampLevel(level: number): number {
+    return Math.min(9, Math.max(0, Math.round(level)));
   }
 
   /**
@@ -994,5 +1781,6 @@ export class VNCClient {
     // Reset VNC-specific state
     this.serverInit = null;
     this.vncState = 'version';
+    this.resetProtocolState();
   }
 } 
\ No newline at end of file
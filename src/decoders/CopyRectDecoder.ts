@@ -0,0 +1,16 @@
+import { VNCRect } from '../types/vnc';
+import { VNCDecodeContext, VNCDecoder } from './types';
+
+/**
+ * CopyRect encoding (1): copy an area the client already has
+ */
+export class CopyRectDecoder implements VNCDecoder {
+  decodeRect(rect: VNCRect, { queue, framebuffer }: VNCDecodeContext): boolean {
+    if (!queue.has(4)) return false;
+
+    const srcX = queue.readUint16();
+    const srcY = queue.readUint16();
+    framebuffer.copyRect(srcX, srcY, rect.x, rect.y, rect.width, rect.height);
+    return true;
+  }
+}
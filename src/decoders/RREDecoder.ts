@@ -0,0 +1,51 @@
+import { VNCRect } from '../types/vnc';
+import { VNCDecodeContext, VNCDecoder } from './types';
+
+/**
+ * RRE encoding (2): a background colour plus solid subrectangles with
+ * 16-bit coordinates. Subrectangles are clipped to the enclosing rectangle
+ * so a malformed one can't draw outside the area being updated.
+ */
+export class RREDecoder implements VNCDecoder {
+  /** Bytes used by each subrectangle coordinate */
+  protected coordinateSize: number = 2;
+
+  decodeRect(rect: VNCRect, { queue, framebuffer, pixels }: VNCDecodeContext): boolean {
+    const bpp = pixels.bytesPerPixel;
+    if (!queue.has(4 + bpp)) return false;
+
+    const subrects = queue.peekUint32();
+    const subrectSize = bpp + this.coordinateSize * 4;
+    if (!queue.has(4 + bpp + subrects * subrectSize)) return false;
+
+    queue.skip(4);
+    const background = pixels.readRGB(queue.readView(bpp), 0);
+    framebuffer.fillRect(rect.x, rect.y, rect.width, rect.height, background);
+
+    for (let i = 0; i < subrects; i++) {
+      const colour = pixels.readRGB(queue.readView(bpp), 0);
+      const x = this.readCoordinate(queue);
+      const y = this.readCoordinate(queue);
+      const width = Math.min(this.readCoordinate(queue), rect.width - x);
+      const height = Math.min(this.readCoordinate(queue), rect.height - y);
+
+      if (width > 0 && height > 0) {
+        framebuffer.fillRect(rect.x + x, rect.y + y, width, height, colour);
+      }
+    }
+
+    return true;
+  }
+
+  private readCoordinate(queue: VNCDecodeContext['queue']): number {
+    return this.coordinateSize === 1 ? queue.readUint8() : queue.readUint16();
+  }
+}
+
+/**
+ * CoRRE encoding (4): RRE with 8-bit subrectangle coordinates,
+ * used for rectangles no larger than 255x255
+ */
+export class CoRREDecoder extends RREDecoder {
+  protected coordinateSize: number = 1;
+}
@@ -0,0 +1,18 @@
+import { VNCRect } from '../types/vnc';
+import { VNCDecodeContext, VNCDecoder } from './types';
+
+/**
+ * Raw encoding (0): width * height pixels in the negotiated pixel format
+ */
+export class RawDecoder implements VNCDecoder {
+  decodeRect(rect: VNCRect, { queue, framebuffer, pixels }: VNCDecodeContext): boolean {
+    const count = rect.width * rect.height;
+    const size = count * pixels.bytesPerPixel;
+    if (!queue.has(size)) return false;
+
+    const rgba = new Uint8Array(count * 4);
+    pixels.convert(queue.readView(size), 0, count, rgba);
+    framebuffer.putRect(rect.x, rect.y, rect.width, rect.height, rgba);
+    return true;
+  }
+}
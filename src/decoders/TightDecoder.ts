@@ -0,0 +1,298 @@
+import { VNCDecodedImage, VNCRect } from '../types/vnc';
+import { VNCPixelConverter } from '../core/PixelConverter';
+import { VNCReceiveQueue } from '../core/ReceiveQueue';
+import { VNCInflator } from '../utils/inflate';
+import { VNCDecodeContext, VNCDecoder } from './types';
+import { setPixel } from './pixels';
+
+const FILL = 0x08;
+const JPEG = 0x09;
+const PNG = 0x0a;
+
+const FILTER_COPY = 0;
+const FILTER_PALETTE = 1;
+const FILTER_GRADIENT = 2;
+
+/** Data shorter than this is sent without zlib compression */
+const MIN_TO_COMPRESS = 12;
+
+/**
+ * Tight encoding (7): fill, JPEG, or zlib "basic" compression with copy,
+ * palette and gradient filters on one of four persistent zlib streams.
+ * The low four bits of the control byte reset the matching streams.
+ */
+export class TightDecoder implements VNCDecoder {
+  private inflators: VNCInflator[] = [
+    new VNCInflator(),
+    new VNCInflator(),
+    new VNCInflator(),
+    new VNCInflator()
+  ];
+
+  reset(): void {
+    this.inflators.forEach(inflator => inflator.reset());
+  }
+
+  decodeRect(rect: VNCRect, context: VNCDecodeContext): boolean | Promise<void> {
+    const { queue } = context;
+    if (!queue.has(1)) return false;
+
+    const control = queue.readUint8();
+    const type = control >> 4;
+
+    switch (type) {
+      case FILL:
+        return this.decodeFill(rect, context, control);
+      case JPEG:
+        return this.decodeImage(rect, context, control, 'image/jpeg');
+      default:
+        return this.decodeOther(rect, context, control, type);
+    }
+  }
+
+  /**
+   * Handle compression types other than fill and JPEG
+   */
+  protected decodeOther(rect: VNCRect, context: VNCDecodeContext, control: number, type: number): boolean | Promise<void> {
+    if (type & FILL) {
+      throw new Error(`Invalid Tight compression type: ${type}`);
+    }
+    return this.decodeBasic(rect, context, control);
+  }
+
+  /**
+   * Apply the stream reset bits of a control byte
+   */
+  private resetStreams(control: number): void {
+    for (let i = 0; i < 4; i++) {
+      if (control & (1 << i)) {
+        this.inflators[i].reset();
+      }
+    }
+  }
+
+  private decodeFill(rect: VNCRect, { queue, framebuffer, pixels }: VNCDecodeContext, control: number): boolean {
+    const tpixel = new TPixelReader(pixels);
+    if (!queue.has(tpixel.size)) return false;
+
+    const colour = tpixel.read(queue.readView(tpixel.size), 0);
+    this.resetStreams(control);
+    framebuffer.fillRect(rect.x, rect.y, rect.width, rect.height, colour);
+    return true;
+  }
+
+  protected decodeImage(
+    rect: VNCRect,
+    { queue, framebuffer, decodeImage }: VNCDecodeContext,
+    control: number,
+    mimeType: string
+  ): boolean | Promise<void> {
+    const length = readCompactLength(queue);
+    if (length === null || !queue.has(length)) return false;
+
+    // Copy, since decoding may finish after the queue has moved on
+    const data = queue.readBytes(length);
+    this.resetStreams(control);
+
+    if (!decodeImage) {
+      throw new Error(`No image decoder available for ${mimeType}`);
+    }
+
+    const draw = (image: VNCDecodedImage) => {
+      framebuffer.putRect(rect.x, rect.y, image.width, image.height, image.data);
+    };
+
+    const result = decodeImage(data, mimeType);
+    if (result instanceof Promise) {
+      return result.then(draw);
+    }
+    draw(result);
+    return true;
+  }
+
+  private decodeBasic(rect: VNCRect, { queue, framebuffer, pixels }: VNCDecodeContext, control: number): boolean {
+    const tpixel = new TPixelReader(pixels);
+    const streamId = (control >> 4) & 0x03;
+
+    let filter = FILTER_COPY;
+    if (control & 0x40) {
+      if (!queue.has(1)) return false;
+      filter = queue.readUint8();
+    }
+
+    const palette: number[] = [];
+    if (filter === FILTER_PALETTE) {
+      if (!queue.has(1)) return false;
+      const colours = queue.readUint8() + 1;
+      if (!queue.has(colours * tpixel.size)) return false;
+
+      const paletteData = queue.readView(colours * tpixel.size);
+      for (let i = 0; i < colours; i++) {
+        palette.push(tpixel.read(paletteData, i * tpixel.size));
+      }
+    } else if (filter === FILTER_GRADIENT) {
+      if (!pixels.format.trueColor) {
+        throw new Error('Tight gradient filter requires a true colour pixel format');
+      }
+    } else if (filter !== FILTER_COPY) {
+      throw new Error(`Invalid Tight filter: ${filter}`);
+    }
+
+    const { width, height } = rect;
+    let dataSize: number;
+    if (filter === FILTER_PALETTE) {
+      dataSize = palette.length === 2 ? Math.ceil(width / 8) * height : width * height;
+    } else {
+      dataSize = width * height * tpixel.size;
+    }
+
+    let data: Uint8Array;
+    if (dataSize < MIN_TO_COMPRESS) {
+      if (!queue.has(dataSize)) return false;
+      data = queue.readView(dataSize);
+      this.resetStreams(control);
+    } else {
+      const length = readCompactLength(queue);
+      if (length === null || !queue.has(length)) return false;
+
+      const compressed = queue.readView(length);
+      this.resetStreams(control);
+      data = this.inflators[streamId].inflate(compressed, dataSize, dataSize);
+    }
+
+    if (data.length < dataSize) {
+      throw new Error('Tight rectangle data truncated');
+    }
+
+    const rgba = new Uint8Array(width * height * 4);
+
+    if (filter === FILTER_PALETTE) {
+      if (palette.length === 2) {
+        const rowBytes = Math.ceil(width / 8);
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+            setPixel(rgba, y * width + x, palette[bit]);
+          }
+        }
+      } else {
+        for (let i = 0; i < width * height; i++) {
+          setPixel(rgba, i, palette[data[i]] ?? 0);
+        }
+      }
+    } else if (filter === FILTER_GRADIENT) {
+      this.applyGradient(data, width, height, tpixel, rgba);
+    } else {
+      for (let i = 0; i < width * height; i++) {
+        setPixel(rgba, i, tpixel.read(data, i * tpixel.size));
+      }
+    }
+
+    framebuffer.putRect(rect.x, rect.y, width, height, rgba);
+    return true;
+  }
+
+  /**
+   * Undo the gradient filter: each colour component was sent as the
+   * difference from left + above - above-left, clamped to the component range
+   */
+  private applyGradient(
+    data: Uint8Array,
+    width: number,
+    height: number,
+    tpixel: TPixelReader,
+    rgba: Uint8Array
+  ): void {
+    const format = tpixel.pixels.format;
+    const maxes = tpixel.size === 3 ? [255, 255, 255] : [format.redMax, format.greenMax, format.blueMax];
+    const shifts = [format.redShift, format.greenShift, format.blueShift];
+
+    let previousRow = new Int32Array(width * 3);
+    let currentRow = new Int32Array(width * 3);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const offset = (y * width + x) * tpixel.size;
+        let difference: number[];
+        if (tpixel.size === 3) {
+          difference = [data[offset], data[offset + 1], data[offset + 2]];
+        } else {
+          const value = tpixel.pixels.readPixel(data, offset);
+          difference = shifts.map((shift, c) => (value >>> shift) & maxes[c]);
+        }
+
+        for (let c = 0; c < 3; c++) {
+          const up = previousRow[x * 3 + c];
+          const left = x > 0 ? currentRow[(x - 1) * 3 + c] : 0;
+          const upLeft = x > 0 ? previousRow[(x - 1) * 3 + c] : 0;
+          const predicted = Math.min(maxes[c], Math.max(0, left + up - upLeft));
+          currentRow[x * 3 + c] = (difference[c] + predicted) & maxes[c];
+        }
+
+        const [r, g, b] = [currentRow[x * 3], currentRow[x * 3 + 1], currentRow[x * 3 + 2]];
+        if (tpixel.size === 3) {
+          setPixel(rgba, y * width + x, (r << 16) | (g << 8) | b);
+        } else {
+          setPixel(rgba, y * width + x, tpixel.pixels.toRGB(
+            ((r << shifts[0]) | (g << shifts[1]) | (b << shifts[2])) >>> 0
+          ));
+        }
+      }
+
+      [previousRow, currentRow] = [currentRow, previousRow];
+    }
+  }
+}
+
+/**
+ * TightPNG encoding (-260): Tight's fill and JPEG rectangles plus PNG in
+ * place of basic compression, so every image goes to the platform decoder
+ */
+export class TightPNGDecoder extends TightDecoder {
+  protected decodeOther(rect: VNCRect, context: VNCDecodeContext, control: number, type: number): boolean | Promise<void> {
+    if (type !== PNG) {
+      throw new Error(`Invalid TightPNG compression type: ${type}`);
+    }
+    return this.decodeImage(rect, context, control, 'image/png');
+  }
+}
+
+/**
+ * Read a Tight compact length (1-3 bytes, 7 bits each),
+ * or null if it hasn't fully arrived
+ */
+export function readCompactLength(queue: VNCReceiveQueue): number | null {
+  let length = 0;
+  for (let i = 0; i < 3; i++) {
+    if (!queue.has(1)) return null;
+    const byte = queue.readUint8();
+    length |= (i < 2 ? byte & 0x7f : byte) << (7 * i);
+    if (i < 2 && !(byte & 0x80)) break;
+  }
+  return length;
+}
+
+/**
+ * Reads Tight pixels (TPIXEL): plain R, G, B bytes for 24-bit depth
+ * true colour formats, otherwise a normal pixel
+ */
+class TPixelReader {
+  readonly size: number;
+
+  constructor(readonly pixels: VNCPixelConverter) {
+    const { trueColor, bitsPerPixel, depth, redMax, greenMax, blueMax } = pixels.format;
+    const isRGB888 = trueColor && bitsPerPixel === 32 && depth === 24 &&
+      redMax === 255 && greenMax === 255 && blueMax === 255;
+    this.size = isRGB888 ? 3 : pixels.bytesPerPixel;
+  }
+
+  /**
+   * Read one TPIXEL as 0xRRGGBB
+   */
+  read(data: Uint8Array, offset: number): number {
+    if (this.size === 3) {
+      return (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+    }
+    return this.pixels.readRGB(data, offset);
+  }
+}
@@ -0,0 +1,193 @@
+import { VNCPixelFormat, VNCRect } from '../types/vnc';
+import { VNCPixelConverter } from '../core/PixelConverter';
+import { VNCInflator } from '../utils/inflate';
+import { VNCDecodeContext, VNCDecoder } from './types';
+import { setPixel } from './pixels';
+
+const TILE_SIZE = 64;
+
+/**
+ * ZRLE encoding (16): zlib-compressed 64x64 tiles, each raw, solid,
+ * packed-palette, plain RLE or palette RLE. A single zlib stream is used
+ * for the whole connection, so the inflater lives as long as the decoder.
+ */
+export class ZRLEDecoder implements VNCDecoder {
+  private inflator: VNCInflator = new VNCInflator();
+
+  reset(): void {
+    this.inflator.reset();
+  }
+
+  decodeRect(rect: VNCRect, { queue, framebuffer, pixels }: VNCDecodeContext): boolean {
+    if (!queue.has(4)) return false;
+    const length = queue.peekUint32();
+    if (!queue.has(4 + length)) return false;
+
+    queue.skip(4);
+    const cpixel = new CPixelReader(pixels);
+    const data = this.inflator.inflate(queue.readView(length), 0, maxRectLength(rect, cpixel.size));
+    let offset = 0;
+
+    const need = (count: number) => {
+      if (offset + count > data.length) {
+        throw new Error('ZRLE tile data truncated');
+      }
+    };
+
+    for (let tileY = rect.y; tileY < rect.y + rect.height; tileY += TILE_SIZE) {
+      const tileHeight = Math.min(TILE_SIZE, rect.y + rect.height - tileY);
+
+      for (let tileX = rect.x; tileX < rect.x + rect.width; tileX += TILE_SIZE) {
+        const tileWidth = Math.min(TILE_SIZE, rect.x + rect.width - tileX);
+        const count = tileWidth * tileHeight;
+
+        need(1);
+        const subencoding = data[offset++];
+
+        if (subencoding === 1) {
+          // Solid tile
+          need(cpixel.size);
+          framebuffer.fillRect(tileX, tileY, tileWidth, tileHeight, cpixel.read(data, offset));
+          offset += cpixel.size;
+          continue;
+        }
+
+        const rgba = new Uint8Array(count * 4);
+
+        if (subencoding === 0) {
+          // Raw CPIXELs
+          need(count * cpixel.size);
+          for (let i = 0; i < count; i++) {
+            setPixel(rgba, i, cpixel.read(data, offset));
+            offset += cpixel.size;
+          }
+        } else if (subencoding >= 2 && subencoding <= 16) {
+          // Packed palette: 1, 2 or 4 bit indices, rows padded to a byte
+          need(subencoding * cpixel.size);
+          const palette = this.readPalette(data, offset, subencoding, cpixel);
+          offset += subencoding * cpixel.size;
+
+          const bits = subencoding === 2 ? 1 : subencoding <= 4 ? 2 : 4;
+          const rowBytes = Math.ceil((tileWidth * bits) / 8);
+          need(rowBytes * tileHeight);
+          const mask = (1 << bits) - 1;
+
+          for (let y = 0; y < tileHeight; y++) {
+            const row = offset + y * rowBytes;
+            for (let x = 0; x < tileWidth; x++) {
+              const bitOffset = x * bits;
+              const index = (data[row + (bitOffset >> 3)] >> (8 - bits - (bitOffset & 7))) & mask;
+              setPixel(rgba, y * tileWidth + x, palette[index] ?? 0);
+            }
+          }
+          offset += rowBytes * tileHeight;
+        } else if (subencoding === 128) {
+          // Plain RLE
+          let i = 0;
+          while (i < count) {
+            need(cpixel.size);
+            const colour = cpixel.read(data, offset);
+            offset += cpixel.size;
+            const run = readRunLength();
+            for (let end = Math.min(count, i + run); i < end; i++) {
+              setPixel(rgba, i, colour);
+            }
+          }
+        } else if (subencoding >= 130) {
+          // Palette RLE
+          const paletteSize = subencoding - 128;
+          need(paletteSize * cpixel.size);
+          const palette = this.readPalette(data, offset, paletteSize, cpixel);
+          offset += paletteSize * cpixel.size;
+
+          let i = 0;
+          while (i < count) {
+            need(1);
+            const index = data[offset++];
+            const colour = palette[index & 0x7f] ?? 0;
+            const run = index & 0x80 ? readRunLength() : 1;
+            for (let end = Math.min(count, i + run); i < end; i++) {
+              setPixel(rgba, i, colour);
+            }
+          }
+        } else {
+          throw new Error(`Invalid ZRLE subencoding: ${subencoding}`);
+        }
+
+        framebuffer.putRect(tileX, tileY, tileWidth, tileHeight, rgba);
+      }
+    }
+
+    return true;
+
+    function readRunLength(): number {
+      let run = 1;
+      let value: number;
+      do {
+        need(1);
+        value = data[offset++];
+        run += value;
+      } while (value === 255);
+      return run;
+    }
+  }
+
+  private readPalette(data: Uint8Array, offset: number, size: number, cpixel: CPixelReader): number[] {
+    const palette: number[] = [];
+    for (let i = 0; i < size; i++) {
+      palette.push(cpixel.read(data, offset + i * cpixel.size));
+    }
+    return palette;
+  }
+}
+
+/**
+ * Largest inflated size a rectangle can legitimately have: per tile, the
+ * subencoding byte and a full palette, then at most a CPIXEL and a run
+ * length byte for every pixel
+ */
+function maxRectLength(rect: VNCRect, cpixelSize: number): number {
+  const tiles = Math.ceil(rect.width / TILE_SIZE) * Math.ceil(rect.height / TILE_SIZE);
+  return tiles * (1 + 127 * cpixelSize) + rect.width * rect.height * (cpixelSize + 1);
+}
+
+/**
+ * Reads ZRLE compressed pixels (CPIXEL). For 32-bit true colour formats
+ * with depth <= 24, only the three bytes that carry colour are sent.
+ */
+class CPixelReader {
+  readonly size: number;
+  /** Shift that puts a 3-byte CPIXEL back where its bytes sit in the full pixel */
+  private shift: number = 0;
+
+  constructor(private pixels: VNCPixelConverter) {
+    const format = pixels.format;
+    this.size = pixels.bytesPerPixel;
+
+    if (format.trueColor && format.bitsPerPixel === 32 && format.depth <= 24) {
+      this.size = 3;
+      // Colour lives either in the low three bytes or the high three bytes
+      this.shift = CPixelReader.colourBits(format) > 0xffffff ? 8 : 0;
+    }
+  }
+
+  /**
+   * Read one CPIXEL as 0xRRGGBB
+   */
+  read(data: Uint8Array, offset: number): number {
+    if (this.size !== 3) {
+      return this.pixels.readRGB(data, offset);
+    }
+
+    const value = this.pixels.format.bigEndian
+      ? (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2]
+      : data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+    return this.pixels.toRGB((value << this.shift) >>> 0);
+  }
+
+  private static colourBits(format: VNCPixelFormat): number {
+    return ((format.redMax << format.redShift) |
+      (format.greenMax << format.greenShift) |
+      (format.blueMax << format.blueShift)) >>> 0;
+  }
+}
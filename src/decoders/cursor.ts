@@ -0,0 +1,31 @@
+import { VNCCursor, VNCRect } from '../types/vnc';
+import { VNCPixelConverter } from '../core/PixelConverter';
+import { VNCReceiveQueue } from '../core/ReceiveQueue';
+
+/**
+ * Read a Cursor pseudo-encoding (-239) rectangle: width * height pixels
+ * followed by a 1 bpp transparency mask, rows padded to a byte. The
+ * rectangle position is the cursor hotspot.
+ *
+ * Returns null when the queue doesn't yet hold the whole rectangle.
+ */
+export function readCursor(rect: VNCRect, queue: VNCReceiveQueue, pixels: VNCPixelConverter): VNCCursor | null {
+  const { width, height } = rect;
+  const count = width * height;
+  const pixelBytes = count * pixels.bytesPerPixel;
+  const rowBytes = Math.ceil(width / 8);
+  if (!queue.has(pixelBytes + rowBytes * height)) return null;
+
+  const data = new Uint8ClampedArray(count * 4);
+  pixels.convert(queue.readView(pixelBytes), 0, count, data);
+
+  const mask = queue.readView(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = (mask[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+      data[(y * width + x) * 4 + 3] = bit ? 255 : 0;
+    }
+  }
+
+  return { width, height, hotspotX: rect.x, hotspotY: rect.y, data };
+}
@@ -0,0 +1,10 @@
+/**
+ * Write a 0xRRGGBB colour as an opaque RGBA pixel at `index`
+ */
+export function setPixel(rgba: Uint8Array, index: number, rgb: number): void {
+  const offset = index * 4;
+  rgba[offset] = rgb >> 16;
+  rgba[offset + 1] = (rgb >> 8) & 0xff;
+  rgba[offset + 2] = rgb & 0xff;
+  rgba[offset + 3] = 255;
+}
@@ -0,0 +1,34 @@
+import { VNCImageDecoder, VNCRect } from '../types/vnc';
+import { VNCFramebuffer } from '../core/Framebuffer';
+import { VNCPixelConverter } from '../core/PixelConverter';
+import { VNCReceiveQueue } from '../core/ReceiveQueue';
+
+/**
+ * State shared with decoders while a rectangle is being decoded
+ */
+export interface VNCDecodeContext {
+  /** Receive queue positioned just after the rectangle header */
+  queue: VNCReceiveQueue;
+  /** Framebuffer to draw into */
+  framebuffer: VNCFramebuffer;
+  /** Converter for the pixel format currently in effect */
+  pixels: VNCPixelConverter;
+  /** Decoder for JPEG/PNG data, if the platform has one */
+  decodeImage?: VNCImageDecoder;
+}
+
+/**
+ * Decoder for one FramebufferUpdate encoding.
+ *
+ * decodeRect() returns false when the queue doesn't yet hold the whole
+ * rectangle; the client then rewinds the queue and calls it again once more
+ * data has arrived, so decoders must not draw or keep stream state from a
+ * failed attempt. They may remember how much of the rectangle has arrived.
+ * A returned promise means the data was consumed but pixels are still being
+ * decoded; the client holds back further messages until it settles.
+ */
+export interface VNCDecoder {
+  decodeRect(rect: VNCRect, context: VNCDecodeContext): boolean | Promise<void>;
+  /** Drop per-connection state such as zlib streams */
+  reset?(): void;
+}
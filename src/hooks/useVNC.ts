@@ -3,7 +3,9 @@ import { VNCClient } from '../core/VNCClient';
 import {
   VNCClientOptions,
   VNCConnectionState,
+  VNCCursor,
   VNCEvent,
+  VNCFramebufferUpdate,
   VNCKeyEvent,
   VNCPointerEvent
 } from '../types/vnc';
@@ -26,16 +28,30 @@ export interface UseVNCReturn {
   disconnect: () => void;
   /** Send key event */
   sendKeyEvent: (event: VNCKeyEvent) => void;
+  /** Press keys in order and release them in reverse */
+  sendKeyCombo: (keys: string[]) => void;
+  /** Send Ctrl+Alt+Del */
+  sendCtrlAltDel: () => void;
+  /** Release every key still held down on the server */
+  releaseAllKeys: () => void;
   /** Send pointer event */
   sendPointerEvent: (event: VNCPointerEvent) => void;
   /** Request framebuffer update */
   requestUpdate: (incremental?: boolean) => void;
+  /** Ask the server to resize the remote desktop */
+  requestDesktopSize: (width: number, height: number) => boolean;
   /** Canvas ref for rendering */
   canvasRef: React.RefObject<HTMLCanvasElement>;
   /** Error message */
   error: string | null;
   /** Loading state */
   loading: boolean;
+  /** Latest remote cursor shape, if the server sent one */
+  cursor: VNCCursor | null;
+  /** Clipboard text, last copied on either side */
+  clipboard: string;
+  /** Set the clipboard and send it to the server */
+  setClipboard: (text: string) => void;
 }
 
 /**
@@ -55,6 +71,8 @@ export function useVNC(options: UseVNCOptions): UseVNCReturn {
   });
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [cursor, setCursor] = useState<VNCCursor | null>(null);
+  const [clipboard, setClipboardState] = useState('');
 
   // Initialize client
   useEffect(() => {
@@ -78,6 +96,7 @@ export function useVNC(options: UseVNCOptions): UseVNCReturn {
           break;
         case 'disconnected':
           setLoading(false);
+          setCursor(null);
           setState(client.getState());
           break;
         case 'error':
@@ -93,6 +112,12 @@ export function useVNC(options: UseVNCOptions): UseVNCReturn {
           setState(client.getState());
           resizeCanvas();
           break;
+        case 'cursor':
+          setCursor(event.data);
+          break;
+        case 'server-cut-text':
+          setClipboardState(event.data.text);
+          break;
       }
     };
 
@@ -103,6 +128,8 @@ export function useVNC(options: UseVNCOptions): UseVNCReturn {
     client.on('error', handleEvent);
     client.on('framebuffer-update', handleEvent);
     client.on('resize', handleEvent);
+    client.on('cursor', handleEvent);
+    client.on('server-cut-text', handleEvent);
 
     // Auto-connect if specified
     if (options.autoConnect) {
@@ -166,6 +193,24 @@ export function useVNC(options: UseVNCOptions): UseVNCReturn {
     clientRef.current.sendKeyEvent(event);
   }, []);
 
+  // Send key combination
+  const sendKeyCombo = useCallback((keys: string[]) => {
+    if (!clientRef.current) return;
+    clientRef.current.sendKeyCombo(keys);
+  }, []);
+
+  // Send Ctrl+Alt+Del
+  const sendCtrlAltDel = useCallback(() => {
+    if (!clientRef.current) return;
+    clientRef.current.sendCtrlAltDel();
+  }, []);
+
+  // Release held keys
+  const releaseAllKeys = useCallback(() => {
+    if (!clientRef.current) return;
+    clientRef.current.releaseAllKeys();
+  }, []);
+
   // Send pointer event
   const sendPointerEvent = useCallback((event: VNCPointerEvent) => {
     if (!clientRef.current) return;
@@ -178,15 +223,38 @@ export function useVNC(options: UseVNCOptions): UseVNCReturn {
     clientRef.current.requestFramebufferUpdate(incremental);
   }, []);
 
-  // Render framebuffer to canvas
-  const renderToCanvas = useCallback((imageData: ImageData) => {
+  // Request remote desktop size
+  const requestDesktopSize = useCallback((width: number, height: number) => {
+    if (!clientRef.current) return false;
+    return clientRef.current.requestDesktopSize(width, height);
+  }, []);
+
+  // Set clipboard and send it to the server
+  const setClipboard = useCallback((text: string) => {
+    setClipboardState(text);
+    if (!clientRef.current) return;
+    clientRef.current.sendClipboard(text);
+  }, []);
+
+  // Render dirty framebuffer rectangles to canvas
+  const renderToCanvas = useCallback((update: VNCFramebufferUpdate) => {
     const canvas = canvasRef.current;
-    if (!canvas || !imageData) return;
+    if (!canvas || !update?.imageData) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    ctx.putImageData(imageData, 0, 0);
+    const { imageData } = update;
+    if (canvas.width !== imageData.width || canvas.height !== imageData.height) {
+      // Resizing clears the canvas, so redraw everything
+      resizeCanvas();
+      ctx.putImageData(imageData, 0, 0);
+      return;
+    }
+
+    for (const rect of update.rectangles) {
+      ctx.putImageData(imageData, 0, 0, rect.x, rect.y, rect.width, rect.height);
+    }
   }, []);
 
   // Resize canvas to match server resolution
@@ -219,10 +287,17 @@ export function useVNC(options: UseVNCOptions): UseVNCReturn {
     connect,
     disconnect,
     sendKeyEvent,
+    sendKeyCombo,
+    sendCtrlAltDel,
+    releaseAllKeys,
     sendPointerEvent,
     requestUpdate,
+    requestDesktopSize,
     canvasRef,
     error,
-    loading
+    loading,
+    cursor,
+    clipboard,
+    setClipboard
   };
 } 
\ No newline at end of file
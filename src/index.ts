@@ -1,5 +1,6 @@
 // Core VNC client
 export { VNCClient } from './core/VNCClient';
+export { VNCFramebuffer } from './core/Framebuffer';
 
 // Types
 export type {
@@ -7,17 +8,39 @@ export type {
   VNCConnectionState,
   VNCRect,
   VNCPixelFormat,
+  VNCPixelFormatPreset,
   VNCServerInitMessage,
   VNCFramebufferUpdate,
+  VNCDecodedImage,
+  VNCImageDecoder,
+  VNCCursor,
+  VNCScreen,
+  VNCDesktopSizeResult,
   VNCKeyEvent,
   VNCPointerEvent,
+  VNCPoint,
+  VNCGesture,
   VNCEventType,
   VNCEvent,
   VNCEventHandler
 } from './types/vnc';
 
 // Protocol utilities
-export { VNCProtocolUtils } from './utils/protocol';
+export { VNCProtocolUtils, VNCEncoding, VNCClipboardFlag, VNCPointerButton } from './utils/protocol';
+
+// Keyboard mapping
+export { VNCKeysym, KEYSYMS_BY_KEY, KEYSYMS_BY_CODE, keyToKeysym, codePointToKeysym } from './utils/keysym';
+export { XT_SCANCODES, codeToQEMUKeycode } from './utils/scancodes';
+
+// Pointer and touch input
+export {
+  VNCWheelAccumulator,
+  domButtonsToMask,
+  wheelDeltaToPixels,
+  moveLockedPointer,
+  framebufferToCanvasPoint
+} from './utils/pointer';
+export { VNCGestureRecognizer } from './utils/gestures';
 
 // React hooks and components (conditional exports)
 export type { UseVNCOptions, UseVNCReturn } from './hooks/useVNC';
@@ -11,6 +11,22 @@ export interface VNCClientOptions {
   quality?: number;
   /** Compression level (0-9, where 9 is max compression) */
   compression?: number;
+  /** Preferred encodings, most preferred first. Encodings the client can't decode are ignored */
+  encodings?: number[];
+  /** Advertise TightPNG ahead of Tight, so images are decoded by the platform rather than zlib in JS */
+  preferTightPNG?: boolean;
+  /** Decoder for JPEG and PNG rectangles. Defaults to the browser's createImageBitmap when available */
+  imageDecoder?: VNCImageDecoder;
+  /** Pixel format to request from the server: a preset or a custom format (default: 'true-color-32') */
+  pixelFormat?: VNCPixelFormatPreset | VNCPixelFormat;
+  /** Ask the server to send its cursor shape rather than draw it into the framebuffer (default: true) */
+  localCursor?: boolean;
+  /**
+   * How often to send pointer moves: 'frame' merges them per animation frame,
+   * a number sends at most one per that many milliseconds, and 0 sends every
+   * move. Button changes are always sent at once (default: 'frame')
+   */
+  pointerRateLimit?: number | 'frame';
   /** Auto-resize canvas to match server resolution */
   autoResize?: boolean;
   /** Scale factor for display (0.1 to 2.0) */
@@ -50,6 +66,37 @@ export interface VNCPixelFormat {
   blueShift: number;
 }
 
+/**
+ * One monitor of the remote desktop, from ExtendedDesktopSize
+ */
+export interface VNCScreen {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  flags: number;
+}
+
+/**
+ * Server reply to a SetDesktopSize request
+ */
+export interface VNCDesktopSizeResult {
+  success: boolean;
+  /** ExtendedDesktopSize status code, 0 on success */
+  status: number;
+  /** Desktop size after the request */
+  width: number;
+  height: number;
+  message?: string;
+}
+
+/**
+ * Built-in pixel formats: 24-bit colour in 32 bits, RGB565, and 8-bit BGR233
+ * for slow links
+ */
+export type VNCPixelFormatPreset = 'true-color-32' | 'high-color-16' | 'bgr233-8';
+
 export interface VNCServerInitMessage {
   width: number;
   height: number;
@@ -62,6 +109,34 @@ export interface VNCFramebufferUpdate {
   imageData?: ImageData;
 }
 
+export interface VNCDecodedImage {
+  width: number;
+  height: number;
+  /** RGBA pixels, width * height * 4 bytes */
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+/**
+ * Decodes a compressed image (JPEG, PNG) sent by the server
+ */
+export type VNCImageDecoder = (
+  data: Uint8Array,
+  mimeType: string
+) => VNCDecodedImage | Promise<VNCDecodedImage>;
+
+/**
+ * Remote cursor shape from the Cursor pseudo-encoding.
+ * A zero-sized cursor means the server has hidden its cursor.
+ */
+export interface VNCCursor {
+  width: number;
+  height: number;
+  hotspotX: number;
+  hotspotY: number;
+  /** RGBA pixels, width * height * 4 bytes */
+  data: Uint8ClampedArray;
+}
+
 export interface VNCKeyEvent {
   key: string;
   code: string;
@@ -78,6 +153,27 @@ export interface VNCPointerEvent {
   buttons: number;
 }
 
+/** A position, e.g. of the pointer in framebuffer pixels */
+export interface VNCPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Touch gesture recognised by VNCGestureRecognizer. Positions are in the
+ * coordinates the touches were reported in; `scroll` deltas are the distance
+ * the fingers moved and `pinch` scale is relative to the previous pinch event.
+ */
+export type VNCGesture =
+  | { type: 'tap'; x: number; y: number }
+  | { type: 'long-press'; x: number; y: number }
+  | { type: 'two-finger-tap'; x: number; y: number }
+  | { type: 'drag-start'; x: number; y: number }
+  | { type: 'drag'; x: number; y: number }
+  | { type: 'drag-end'; x: number; y: number }
+  | { type: 'scroll'; x: number; y: number; dx: number; dy: number }
+  | { type: 'pinch'; x: number; y: number; scale: number };
+
 export type VNCEventType = 
   | 'connecting'
   | 'connected' 
@@ -86,7 +182,9 @@ export type VNCEventType =
   | 'framebuffer-update'
   | 'server-cut-text'
   | 'bell'
-  | 'resize';
+  | 'resize'
+  | 'cursor'
+  | 'desktop-size';
 
 export interface VNCEvent {
   type: VNCEventType;
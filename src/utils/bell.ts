@@ -0,0 +1,34 @@
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play a short generated beep with the Web Audio API.
+ * Does nothing where Web Audio isn't available.
+ */
+export function playBeep(frequency: number = 880, duration: number = 0.12): void {
+  const AudioContextClass: typeof AudioContext | undefined = typeof window !== 'undefined'
+    ? window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+    : undefined;
+  if (!AudioContextClass) return;
+
+  // Browsers cap the number of contexts, so share one
+  audioContext = audioContext || new AudioContextClass();
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => undefined);
+  }
+
+  const now = audioContext.currentTime;
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+
+  oscillator.type = 'sine';
+  oscillator.frequency.value = frequency;
+  // Short attack and release so the beep doesn't click
+  gain.gain.setValueAtTime(0, now);
+  gain.gain.linearRampToValueAtTime(0.2, now + 0.01);
+  gain.gain.linearRampToValueAtTime(0, now + duration);
+
+  oscillator.connect(gain);
+  gain.connect(audioContext.destination);
+  oscillator.start(now);
+  oscillator.stop(now + duration);
+}
@@ -0,0 +1,54 @@
+import { VNCCursor } from '../types/vnc';
+
+/**
+ * A small black dot with a white outline, for when the server hides its cursor
+ */
+export function createDotCursor(): VNCCursor {
+  const size = 5;
+  const data = new Uint8ClampedArray(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const distance = Math.hypot(x - 2, y - 2);
+      if (distance > 2.3) continue;
+
+      const offset = (y * size + x) * 4;
+      const colour = distance < 1.5 ? 0 : 255;
+      data[offset] = colour;
+      data[offset + 1] = colour;
+      data[offset + 2] = colour;
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width: size, height: size, hotspotX: 2, hotspotY: 2, data };
+}
+
+/**
+ * Render the cursor image as a data URL, or null when it can't be drawn
+ * (no DOM, or a hidden zero-sized cursor)
+ */
+export function createCursorImage(cursor: VNCCursor): string | null {
+  if (cursor.width === 0 || cursor.height === 0) return null;
+  if (typeof document === 'undefined' || typeof ImageData === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cursor.width;
+  canvas.height = cursor.height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.putImageData(new ImageData(new Uint8ClampedArray(cursor.data), cursor.width, cursor.height), 0, 0);
+  return canvas.toDataURL();
+}
+
+/**
+ * Build a CSS `cursor` value showing the cursor image, or null when it
+ * can't be drawn
+ */
+export function createCursorStyle(cursor: VNCCursor, fallback: string = 'default'): string | null {
+  const image = createCursorImage(cursor);
+  if (!image) return null;
+
+  return `url(${image}) ${cursor.hotspotX} ${cursor.hotspotY}, ${fallback}`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Wrap data in a complete zlib stream made of stored (uncompressed)
+ * deflate blocks. Any inflater accepts it, and it saves shipping a
+ * compressor for the occasional outgoing clipboard message.
+ */
+
+const MAX_STORED_BLOCK = 0xffff;
+
+export function createZlibStream(data: Uint8Array): Uint8Array {
+  const blocks = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const output = new Uint8Array(2 + blocks * 5 + data.length + 4);
+  const view = new DataView(output.buffer);
+
+  // CMF/FLG: deflate, 32K window, no dictionary, fastest compression
+  output[0] = 0x78;
+  output[1] = 0x01;
+  let offset = 2;
+
+  for (let i = 0; i < blocks; i++) {
+    const start = i * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, data.length - start);
+
+    output[offset] = i === blocks - 1 ? 1 : 0; // BFINAL, BTYPE 00
+    view.setUint16(offset + 1, length, true);
+    view.setUint16(offset + 3, length ^ 0xffff, true);
+    output.set(data.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+
+  view.setUint32(offset, adler32(data), false);
+  return output;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  // 5552 is the most bytes that can be summed before b can overflow
+  for (let start = 0; start < data.length; start += 5552) {
+    const end = Math.min(data.length, start + 5552);
+    for (let i = start; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
@@ -0,0 +1,261 @@
+import { VNCGesture } from '../types/vnc';
+
+/** Distance a touch may move and still count as a tap, in pixels */
+const TAP_MOVE_THRESHOLD = 10;
+
+/** Hold time before a touch becomes a long press */
+const LONG_PRESS_DELAY = 500;
+
+/** Longest two-finger touch that still counts as a two-finger tap */
+const TWO_FINGER_TAP_DURATION = 300;
+
+/** Change in finger spread that makes a two-finger gesture a pinch, in pixels */
+const PINCH_THRESHOLD = 20;
+
+interface VNCTouch {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+type VNCGestureState =
+  | 'idle'
+  | 'one-finger'
+  | 'drag'
+  | 'long-press'
+  | 'two-finger'
+  | 'scroll'
+  | 'pinch'
+  | 'ignore';
+
+/**
+ * Turns raw touch points into gestures. It knows nothing about the DOM:
+ * callers feed it pointer down/move/up calls and receive VNCGesture events.
+ *
+ * One finger taps, drags or long-presses; two fingers tap, scroll or pinch.
+ * A gesture lasts until all fingers lift, and fingers beyond the ones it
+ * started with are ignored.
+ */
+export class VNCGestureRecognizer {
+  private onGesture: (gesture: VNCGesture) => void;
+  private touches: Map<number, VNCTouch> = new Map();
+  /** Touches that make up the current gesture */
+  private active: number[] = [];
+  private state: VNCGestureState = 'idle';
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+  private twoFingerStartTime: number = 0;
+  private lastCentre = { x: 0, y: 0 };
+  private lastDistance: number = 0;
+
+  constructor(onGesture: (gesture: VNCGesture) => void) {
+    this.onGesture = onGesture;
+  }
+
+  /**
+   * A finger touched down
+   */
+  pointerDown(id: number, x: number, y: number): void {
+    this.touches.set(id, { startX: x, startY: y, x, y });
+
+    switch (this.state) {
+      case 'idle':
+        this.state = 'one-finger';
+        this.active = [id];
+        this.longPressTimer = setTimeout(() => this.handleLongPress(), LONG_PRESS_DELAY);
+        break;
+      case 'one-finger':
+        this.clearLongPressTimer();
+        this.state = 'two-finger';
+        this.active.push(id);
+        this.twoFingerStartTime = Date.now();
+        this.lastCentre = this.centre(true);
+        this.lastDistance = this.distance(true);
+        break;
+      case 'two-finger':
+        // Three fingers aren't a gesture we know
+        this.state = 'ignore';
+        break;
+    }
+  }
+
+  /**
+   * A finger moved
+   */
+  pointerMove(id: number, x: number, y: number): void {
+    const touch = this.touches.get(id);
+    if (!touch) return;
+
+    touch.x = x;
+    touch.y = y;
+    if (!this.active.includes(id)) return;
+
+    switch (this.state) {
+      case 'one-finger':
+        if (Math.hypot(x - touch.startX, y - touch.startY) <= TAP_MOVE_THRESHOLD) break;
+
+        this.clearLongPressTimer();
+        this.state = 'drag';
+        this.onGesture({ type: 'drag-start', x: touch.startX, y: touch.startY });
+        this.onGesture({ type: 'drag', x, y });
+        break;
+      case 'drag':
+        this.onGesture({ type: 'drag', x, y });
+        break;
+      case 'two-finger':
+        this.detectTwoFingerGesture();
+        break;
+      case 'scroll':
+      case 'pinch':
+        this.emitTwoFingerGesture();
+        break;
+    }
+  }
+
+  /**
+   * A finger lifted
+   */
+  pointerUp(id: number, x: number, y: number): void {
+    const touch = this.touches.get(id);
+    if (!touch) return;
+
+    touch.x = x;
+    touch.y = y;
+    if (this.active.includes(id)) {
+      switch (this.state) {
+        case 'one-finger':
+          this.onGesture({ type: 'tap', x: touch.startX, y: touch.startY });
+          break;
+        case 'drag':
+          this.onGesture({ type: 'drag-end', x, y });
+          break;
+        case 'two-finger':
+          if (Date.now() - this.twoFingerStartTime <= TWO_FINGER_TAP_DURATION) {
+            const centre = this.centre(true);
+            this.onGesture({ type: 'two-finger-tap', x: centre.x, y: centre.y });
+          }
+          break;
+      }
+      this.endGesture();
+    }
+
+    this.removeTouch(id);
+  }
+
+  /**
+   * The browser took over a touch, so end the gesture without acting on it
+   */
+  pointerCancel(id: number): void {
+    const touch = this.touches.get(id);
+    if (!touch) return;
+
+    if (this.active.includes(id)) {
+      if (this.state === 'drag') {
+        this.onGesture({ type: 'drag-end', x: touch.x, y: touch.y });
+      }
+      this.endGesture();
+    }
+
+    this.removeTouch(id);
+  }
+
+  /**
+   * Forget all touches, e.g. when the viewer is torn down
+   */
+  reset(): void {
+    this.clearLongPressTimer();
+    this.touches.clear();
+    this.active = [];
+    this.state = 'idle';
+  }
+
+  private handleLongPress(): void {
+    this.longPressTimer = null;
+    const touch = this.touches.get(this.active[0]);
+    if (this.state !== 'one-finger' || !touch) return;
+
+    this.state = 'long-press';
+    this.onGesture({ type: 'long-press', x: touch.startX, y: touch.startY });
+  }
+
+  /**
+   * Decide between scrolling and pinching once two fingers move far enough
+   */
+  private detectTwoFingerGesture(): void {
+    const startCentre = this.centre(true);
+    const startDistance = this.distance(true);
+    const centre = this.centre();
+
+    if (Math.abs(this.distance() - startDistance) > PINCH_THRESHOLD) {
+      this.state = 'pinch';
+    } else if (Math.hypot(centre.x - startCentre.x, centre.y - startCentre.y) > TAP_MOVE_THRESHOLD) {
+      this.state = 'scroll';
+    } else {
+      return;
+    }
+
+    // Report the movement that decided the gesture
+    this.lastCentre = startCentre;
+    this.lastDistance = startDistance;
+    this.emitTwoFingerGesture();
+  }
+
+  private emitTwoFingerGesture(): void {
+    const centre = this.centre();
+
+    if (this.state === 'scroll') {
+      this.onGesture({
+        type: 'scroll',
+        x: centre.x,
+        y: centre.y,
+        dx: centre.x - this.lastCentre.x,
+        dy: centre.y - this.lastCentre.y
+      });
+      this.lastCentre = centre;
+    } else {
+      const distance = this.distance();
+      if (distance > 0 && this.lastDistance > 0) {
+        this.onGesture({ type: 'pinch', x: centre.x, y: centre.y, scale: distance / this.lastDistance });
+      }
+      this.lastDistance = distance;
+    }
+  }
+
+  private endGesture(): void {
+    this.clearLongPressTimer();
+    this.active = [];
+    // Remaining fingers can't start a new gesture until they all lift
+    this.state = 'ignore';
+  }
+
+  private removeTouch(id: number): void {
+    this.touches.delete(id);
+    if (this.touches.size === 0) {
+      this.state = 'idle';
+    }
+  }
+
+  private clearLongPressTimer(): void {
+    if (this.longPressTimer) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+
+  private centre(atStart: boolean = false): { x: number; y: number } {
+    const [a, b] = this.activeTouches(atStart);
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  }
+
+  private distance(atStart: boolean = false): number {
+    const [a, b] = this.activeTouches(atStart);
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  private activeTouches(atStart: boolean): Array<{ x: number; y: number }> {
+    return this.active.map(id => {
+      const touch = this.touches.get(id) as VNCTouch;
+      return atStart ? { x: touch.startX, y: touch.startY } : touch;
+    });
+  }
+}
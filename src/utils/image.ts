@@ -0,0 +1,37 @@
+import { VNCDecodedImage } from '../types/vnc';
+
+/**
+ * Check whether the platform can decode images natively
+ */
+export function canDecodeImages(): boolean {
+  return typeof createImageBitmap !== 'undefined' &&
+    typeof Blob !== 'undefined' &&
+    (typeof OffscreenCanvas !== 'undefined' || typeof document !== 'undefined');
+}
+
+/**
+ * Decode a JPEG or PNG using the browser's built-in image decoder
+ */
+export async function decodeImage(data: Uint8Array, mimeType: string): Promise<VNCDecodedImage> {
+  const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }));
+  const { width, height } = bitmap;
+
+  let context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    context = new OffscreenCanvas(width, height).getContext('2d');
+  } else {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    context = canvas.getContext('2d');
+  }
+
+  if (!context) {
+    bitmap.close();
+    throw new Error('Unable to create a 2D context for image decoding');
+  }
+
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+}
@@ -0,0 +1,351 @@
+/**
+ * Pure TypeScript zlib inflater for the persistent streams used by ZRLE and
+ * Tight. No native modules, so it runs the same in browsers, Node and Bun.
+ *
+ * RFB servers compress each rectangle on a long-lived zlib stream and end it
+ * with a sync flush, so every chunk handed to inflate() holds whole deflate
+ * blocks, while back-references may reach into output from earlier chunks.
+ */
+
+const WINDOW_SIZE = 32768;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+  35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+  3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+  7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Lookup table indexed by the next `bits` input bits (LSB first).
+ * Each entry is (symbol << 4) | codeLength; a zero length marks an invalid code.
+ */
+interface HuffmanTable {
+  entries: Uint16Array;
+  bits: number;
+}
+
+function buildHuffmanTable(lengths: ArrayLike<number>): HuffmanTable {
+  let maxLength = 0;
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+    maxLength = Math.max(maxLength, lengths[i]);
+  }
+  counts[0] = 0;
+
+  // First canonical code of each length
+  const nextCode = new Uint16Array(16);
+  let code = 0;
+  for (let length = 1; length <= 15; length++) {
+    code = (code + counts[length - 1]) << 1;
+    nextCode[length] = code;
+  }
+
+  const bits = Math.max(maxLength, 1);
+  const entries = new Uint16Array(1 << bits);
+
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length === 0) continue;
+
+    // Huffman codes are stored MSB first, input is read LSB first
+    let reversed = 0;
+    let value = nextCode[length]++;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | (value & 1);
+      value >>= 1;
+    }
+
+    const entry = (symbol << 4) | length;
+    for (let index = reversed; index < entries.length; index += 1 << length) {
+      entries[index] = entry;
+    }
+  }
+
+  return { entries, bits };
+}
+
+let fixedTables: { literal: HuffmanTable; distance: HuffmanTable } | null = null;
+
+function getFixedTables(): { literal: HuffmanTable; distance: HuffmanTable } {
+  if (!fixedTables) {
+    const literalLengths = new Uint8Array(288);
+    literalLengths.fill(8, 0, 144);
+    literalLengths.fill(9, 144, 256);
+    literalLengths.fill(7, 256, 280);
+    literalLengths.fill(8, 280, 288);
+
+    fixedTables = {
+      literal: buildHuffmanTable(literalLengths),
+      distance: buildHuffmanTable(new Uint8Array(30).fill(5))
+    };
+  }
+  return fixedTables;
+}
+
+export class VNCInflator {
+  private history: Uint8Array = new Uint8Array(0);
+  private headerPending: boolean = true;
+  private finished: boolean = false;
+  private bitBuffer: number = 0;
+  private bitCount: number = 0;
+  private input: Uint8Array = new Uint8Array(0);
+  private inputPos: number = 0;
+  private output: Uint8Array = new Uint8Array(0);
+  private outputPos: number = 0;
+  private outputLimit: number = Infinity;
+
+  /**
+   * Start a new zlib stream, forgetting all history
+   */
+  reset(): void {
+    this.history = new Uint8Array(0);
+    this.headerPending = true;
+    this.finished = false;
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  /**
+   * Inflate the next chunk of the stream. Throws as soon as the output
+   * would grow past `maxLength` bytes, so untrusted data can't expand
+   * without bound.
+   */
+  inflate(data: Uint8Array, expectedLength: number = 0, maxLength: number = Infinity): Uint8Array {
+    this.input = data;
+    this.inputPos = 0;
+
+    const historyLength = this.history.length;
+    const initialLength = Math.min(Math.max(expectedLength, data.length * 4, 1024), maxLength);
+    this.output = new Uint8Array(historyLength + initialLength);
+    this.output.set(this.history);
+    this.outputPos = historyLength;
+    this.outputLimit = historyLength + maxLength;
+
+    if (this.headerPending && data.length > 0) {
+      this.readHeader();
+    }
+
+    // Blocks that end mid-byte leave their trailing bits buffered for the next chunk
+    while (!this.finished && this.inputPos < this.input.length) {
+      this.inflateBlock();
+    }
+
+    const result = this.output.slice(historyLength, this.outputPos);
+    this.history = this.output.slice(Math.max(0, this.outputPos - WINDOW_SIZE), this.outputPos);
+    this.output = new Uint8Array(0);
+    this.input = new Uint8Array(0);
+    return result;
+  }
+
+  private readHeader(): void {
+    const cmf = this.readBits(8);
+    const flg = this.readBits(8);
+
+    if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+      throw new Error('Invalid zlib header');
+    }
+    if (flg & 0x20) {
+      throw new Error('zlib preset dictionaries are not supported');
+    }
+    this.headerPending = false;
+  }
+
+  private inflateBlock(): void {
+    const final = this.readBits(1);
+    const type = this.readBits(2);
+
+    switch (type) {
+      case 0:
+        this.inflateStoredBlock();
+        break;
+      case 1: {
+        const { literal, distance } = getFixedTables();
+        this.inflateHuffmanBlock(literal, distance);
+        break;
+      }
+      case 2:
+        this.inflateDynamicBlock();
+        break;
+      default:
+        throw new Error('Invalid deflate block type');
+    }
+
+    if (final) {
+      // Anything after the final block is the adler32 trailer
+      this.finished = true;
+    }
+  }
+
+  private inflateStoredBlock(): void {
+    // Skip to the byte boundary
+    this.readBits(this.bitCount & 7);
+
+    const length = this.readBits(16);
+    const inverse = this.readBits(16);
+    if ((length ^ 0xffff) !== inverse) {
+      throw new Error('Invalid stored block length');
+    }
+
+    this.ensureOutput(length);
+    let remaining = length;
+
+    // Whole bytes may already be sitting in the bit buffer
+    while (remaining > 0 && this.bitCount >= 8) {
+      this.output[this.outputPos++] = this.readBits(8);
+      remaining--;
+    }
+
+    if (this.inputPos + remaining > this.input.length) {
+      throw new Error('Incomplete deflate stream');
+    }
+    this.output.set(this.input.subarray(this.inputPos, this.inputPos + remaining), this.outputPos);
+    this.inputPos += remaining;
+    this.outputPos += remaining;
+  }
+
+  private inflateDynamicBlock(): void {
+    const literalCount = this.readBits(5) + 257;
+    const distanceCount = this.readBits(5) + 1;
+    const codeLengthCount = this.readBits(4) + 4;
+
+    const codeLengthLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]] = this.readBits(3);
+    }
+    const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < lengths.length) {
+      const symbol = this.decodeSymbol(codeLengthTable);
+
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+        continue;
+      }
+
+      let value = 0;
+      let repeat: number;
+      if (symbol === 16) {
+        if (index === 0) throw new Error('Invalid code length repeat');
+        value = lengths[index - 1];
+        repeat = 3 + this.readBits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.readBits(3);
+      } else {
+        repeat = 11 + this.readBits(7);
+      }
+
+      if (index + repeat > lengths.length) {
+        throw new Error('Invalid code lengths');
+      }
+      lengths.fill(value, index, index + repeat);
+      index += repeat;
+    }
+
+    this.inflateHuffmanBlock(
+      buildHuffmanTable(lengths.subarray(0, literalCount)),
+      buildHuffmanTable(lengths.subarray(literalCount))
+    );
+  }
+
+  private inflateHuffmanBlock(literalTable: HuffmanTable, distanceTable: HuffmanTable): void {
+    for (;;) {
+      const symbol = this.decodeSymbol(literalTable);
+
+      if (symbol < 256) {
+        this.ensureOutput(1);
+        this.output[this.outputPos++] = symbol;
+        continue;
+      }
+
+      if (symbol === 256) return;
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid length code');
+      }
+      const length = LENGTH_BASE[lengthIndex] + this.readBits(LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = this.decodeSymbol(distanceTable);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error('Invalid distance code');
+      }
+      const distance = DISTANCE_BASE[distanceIndex] + this.readBits(DISTANCE_EXTRA[distanceIndex]);
+      if (distance > this.outputPos) {
+        throw new Error('Invalid distance');
+      }
+
+      this.ensureOutput(length);
+      const output = this.output;
+      let from = this.outputPos - distance;
+      for (let i = 0; i < length; i++) {
+        output[this.outputPos++] = output[from++];
+      }
+    }
+  }
+
+  private decodeSymbol(table: HuffmanTable): number {
+    // Pull in as many bits as the table needs, or whatever is left
+    while (this.bitCount < table.bits && this.inputPos < this.input.length) {
+      this.bitBuffer |= this.input[this.inputPos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+
+    const entry = table.entries[this.bitBuffer & ((1 << table.bits) - 1)];
+    const length = entry & 0x0f;
+    if (length === 0) {
+      throw new Error('Invalid Huffman code');
+    }
+    if (length > this.bitCount) {
+      throw new Error('Incomplete deflate stream');
+    }
+
+    this.bitBuffer >>>= length;
+    this.bitCount -= length;
+    return entry >> 4;
+  }
+
+  private readBits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.inputPos >= this.input.length) {
+        throw new Error('Incomplete deflate stream');
+      }
+      this.bitBuffer |= this.input[this.inputPos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  private ensureOutput(count: number): void {
+    if (this.outputPos + count > this.outputLimit) {
+      throw new Error('Inflated data exceeds the size limit');
+    }
+    if (this.outputPos + count <= this.output.length) return;
+
+    let size = this.output.length * 2;
+    while (size < this.outputPos + count) {
+      size *= 2;
+    }
+    const grown = new Uint8Array(size);
+    grown.set(this.output.subarray(0, this.outputPos));
+    this.output = grown;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Mapping from DOM KeyboardEvent `key`/`code` values to X11 keysyms,
+ * which is what RFB KeyEvent messages carry.
+ */
+
+/**
+ * Named X11 keysyms for keys that don't produce a character
+ */
+export const VNCKeysym = {
+  BackSpace: 0xff08,
+  Tab: 0xff09,
+  Clear: 0xff0b,
+  Return: 0xff0d,
+  Pause: 0xff13,
+  Scroll_Lock: 0xff14,
+  Sys_Req: 0xff15,
+  Escape: 0xff1b,
+  Multi_key: 0xff20,
+  Muhenkan: 0xff22,
+  Henkan: 0xff23,
+  Hiragana: 0xff25,
+  Katakana: 0xff26,
+  Hiragana_Katakana: 0xff27,
+  Zenkaku_Hankaku: 0xff2a,
+  Kana_Lock: 0xff2d,
+  Eisu_toggle: 0xff30,
+  Hangul: 0xff31,
+  Hangul_Hanja: 0xff34,
+  Home: 0xff50,
+  Left: 0xff51,
+  Up: 0xff52,
+  Right: 0xff53,
+  Down: 0xff54,
+  Page_Up: 0xff55,
+  Page_Down: 0xff56,
+  End: 0xff57,
+  Select: 0xff60,
+  Print: 0xff61,
+  Execute: 0xff62,
+  Insert: 0xff63,
+  Undo: 0xff65,
+  Redo: 0xff66,
+  Menu: 0xff67,
+  Find: 0xff68,
+  Cancel: 0xff69,
+  Help: 0xff6a,
+  Break: 0xff6b,
+  Mode_switch: 0xff7e,
+  Num_Lock: 0xff7f,
+  KP_Enter: 0xff8d,
+  KP_Home: 0xff95,
+  KP_Left: 0xff96,
+  KP_Up: 0xff97,
+  KP_Right: 0xff98,
+  KP_Down: 0xff99,
+  KP_Page_Up: 0xff9a,
+  KP_Page_Down: 0xff9b,
+  KP_End: 0xff9c,
+  KP_Begin: 0xff9d,
+  KP_Insert: 0xff9e,
+  KP_Delete: 0xff9f,
+  KP_Multiply: 0xffaa,
+  KP_Add: 0xffab,
+  KP_Separator: 0xffac,
+  KP_Subtract: 0xffad,
+  KP_Decimal: 0xffae,
+  KP_Divide: 0xffaf,
+  KP_0: 0xffb0,
+  KP_Equal: 0xffbd,
+  F1: 0xffbe,
+  Shift_L: 0xffe1,
+  Shift_R: 0xffe2,
+  Control_L: 0xffe3,
+  Control_R: 0xffe4,
+  Caps_Lock: 0xffe5,
+  Meta_L: 0xffe7,
+  Meta_R: 0xffe8,
+  Alt_L: 0xffe9,
+  Alt_R: 0xffea,
+  Super_L: 0xffeb,
+  Super_R: 0xffec,
+  ISO_Level3_Shift: 0xfe03,
+  Delete: 0xffff,
+  XF86AudioLowerVolume: 0x1008ff11,
+  XF86AudioMute: 0x1008ff12,
+  XF86AudioRaiseVolume: 0x1008ff13,
+  XF86AudioPlay: 0x1008ff14,
+  XF86AudioStop: 0x1008ff15,
+  XF86AudioPrev: 0x1008ff16,
+  XF86AudioNext: 0x1008ff17,
+  XF86HomePage: 0x1008ff18,
+  XF86Mail: 0x1008ff19,
+  XF86Search: 0x1008ff1b,
+  XF86Back: 0x1008ff26,
+  XF86Forward: 0x1008ff27,
+  XF86Refresh: 0x1008ff29,
+  XF86PowerOff: 0x1008ff2a,
+  XF86Sleep: 0x1008ff2f,
+  XF86Favorites: 0x1008ff30
+} as const;
+
+const K = VNCKeysym;
+
+/**
+ * Keysyms for KeyboardEvent.key values that don't produce a character.
+ * Modifiers map to their left-hand keysym; the right-hand ones come from `code`.
+ */
+export const KEYSYMS_BY_KEY: Readonly<Record<string, number>> = {
+  Backspace: K.BackSpace,
+  Tab: K.Tab,
+  Clear: K.Clear,
+  Enter: K.Return,
+  Pause: K.Pause,
+  ScrollLock: K.Scroll_Lock,
+  Escape: K.Escape,
+  Compose: K.Multi_key,
+  NonConvert: K.Muhenkan,
+  Convert: K.Henkan,
+  Hiragana: K.Hiragana,
+  Katakana: K.Katakana,
+  HiraganaKatakana: K.Hiragana_Katakana,
+  ZenkakuHankaku: K.Zenkaku_Hankaku,
+  KanaMode: K.Kana_Lock,
+  Eisu: K.Eisu_toggle,
+  HangulMode: K.Hangul,
+  HanjaMode: K.Hangul_Hanja,
+  Home: K.Home,
+  ArrowLeft: K.Left,
+  ArrowUp: K.Up,
+  ArrowRight: K.Right,
+  ArrowDown: K.Down,
+  PageUp: K.Page_Up,
+  PageDown: K.Page_Down,
+  End: K.End,
+  Select: K.Select,
+  PrintScreen: K.Print,
+  Execute: K.Execute,
+  Insert: K.Insert,
+  Undo: K.Undo,
+  Redo: K.Redo,
+  ContextMenu: K.Menu,
+  Find: K.Find,
+  Cancel: K.Cancel,
+  Help: K.Help,
+  ModeChange: K.Mode_switch,
+  NumLock: K.Num_Lock,
+  Shift: K.Shift_L,
+  Control: K.Control_L,
+  CapsLock: K.Caps_Lock,
+  Alt: K.Alt_L,
+  AltGraph: K.ISO_Level3_Shift,
+  // Meta is the Windows/Command key, which X11 desktops treat as Super
+  Meta: K.Super_L,
+  OS: K.Super_L,
+  Super: K.Super_L,
+  Delete: K.Delete,
+  AudioVolumeDown: K.XF86AudioLowerVolume,
+  AudioVolumeMute: K.XF86AudioMute,
+  AudioVolumeUp: K.XF86AudioRaiseVolume,
+  MediaPlayPause: K.XF86AudioPlay,
+  MediaStop: K.XF86AudioStop,
+  MediaTrackPrevious: K.XF86AudioPrev,
+  MediaTrackNext: K.XF86AudioNext,
+  BrowserHome: K.XF86HomePage,
+  LaunchMail: K.XF86Mail,
+  BrowserSearch: K.XF86Search,
+  BrowserBack: K.XF86Back,
+  BrowserForward: K.XF86Forward,
+  BrowserRefresh: K.XF86Refresh,
+  BrowserFavorites: K.XF86Favorites,
+  Power: K.XF86PowerOff,
+  Standby: K.XF86Sleep,
+  ...functionKeys()
+};
+
+/**
+ * Keysyms that depend on the physical key: right-hand modifiers and the
+ * numeric keypad, which `key` alone can't tell apart from the main keys
+ */
+export const KEYSYMS_BY_CODE: Readonly<Record<string, number>> = {
+  ShiftLeft: K.Shift_L,
+  ShiftRight: K.Shift_R,
+  ControlLeft: K.Control_L,
+  ControlRight: K.Control_R,
+  AltLeft: K.Alt_L,
+  AltRight: K.Alt_R,
+  MetaLeft: K.Super_L,
+  MetaRight: K.Super_R,
+  OSLeft: K.Super_L,
+  OSRight: K.Super_R,
+  NumpadEnter: K.KP_Enter,
+  NumpadMultiply: K.KP_Multiply,
+  NumpadAdd: K.KP_Add,
+  NumpadComma: K.KP_Separator,
+  NumpadSubtract: K.KP_Subtract,
+  NumpadDivide: K.KP_Divide,
+  NumpadEqual: K.KP_Equal
+};
+
+/**
+ * Keypad keys whose meaning follows Num Lock: a digit (or decimal point)
+ * when it's on, a navigation key when it's off
+ */
+const NUMPAD_KEYS: Readonly<Record<string, [number, number]>> = {
+  Numpad0: [K.KP_0, K.KP_Insert],
+  Numpad1: [K.KP_0 + 1, K.KP_End],
+  Numpad2: [K.KP_0 + 2, K.KP_Down],
+  Numpad3: [K.KP_0 + 3, K.KP_Page_Down],
+  Numpad4: [K.KP_0 + 4, K.KP_Left],
+  Numpad5: [K.KP_0 + 5, K.KP_Begin],
+  Numpad6: [K.KP_0 + 6, K.KP_Right],
+  Numpad7: [K.KP_0 + 7, K.KP_Home],
+  Numpad8: [K.KP_0 + 8, K.KP_Up],
+  Numpad9: [K.KP_0 + 9, K.KP_Page_Up],
+  NumpadDecimal: [K.KP_Decimal, K.KP_Delete]
+};
+
+function functionKeys(): Record<string, number> {
+  const keys: Record<string, number> = {};
+  for (let i = 1; i <= 35; i++) {
+    keys[`F${i}`] = K.F1 + i - 1;
+  }
+  return keys;
+}
+
+/**
+ * Keysym for a Unicode code point: Latin-1 characters map directly,
+ * everything else to 0x01000000 + code point
+ */
+export function codePointToKeysym(codePoint: number): number {
+  if ((codePoint >= 0x20 && codePoint <= 0x7e) || (codePoint >= 0xa0 && codePoint <= 0xff)) {
+    return codePoint;
+  }
+  return 0x01000000 + codePoint;
+}
+
+/**
+ * Whether a lookup table has its own entry for the name, so names like
+ * `toString` don't find Object.prototype members
+ */
+function hasOwn(table: object, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, name);
+}
+
+/**
+ * Convert a KeyboardEvent's `key` and `code` to an X11 keysym, or 0 if the
+ * key has no keysym (such as a dead key)
+ */
+export function keyToKeysym(key: string, code: string = ''): number {
+  if (hasOwn(NUMPAD_KEYS, code)) {
+    const numpad = NUMPAD_KEYS[code];
+    // With Num Lock on, `key` is the character the key types
+    return key.length === 1 ? numpad[0] : numpad[1];
+  }
+
+  // AltRight types AltGraph on many layouts, which needs its own keysym
+  if (hasOwn(KEYSYMS_BY_CODE, code) && key !== 'AltGraph') {
+    return KEYSYMS_BY_CODE[code];
+  }
+
+  if (hasOwn(KEYSYMS_BY_KEY, key)) {
+    return KEYSYMS_BY_KEY[key];
+  }
+
+  // A single character, which may be outside the BMP
+  const codePoint = key.codePointAt(0);
+  if (codePoint !== undefined && key.length === String.fromCodePoint(codePoint).length) {
+    return codePointToKeysym(codePoint);
+  }
+
+  // Unidentified keys: fall back to the US layout meaning of the physical key
+  const match = /^(?:Key([A-Z])|Digit([0-9]))$/.exec(code);
+  if (match) {
+    return (match[1] || match[2]).toLowerCase().charCodeAt(0);
+  }
+  if (code === 'Space') {
+    return 0x20;
+  }
+
+  return 0;
+}
@@ -0,0 +1,120 @@
+import { VNCPoint } from '../types/vnc';
+import { VNCPointerButton } from './protocol';
+
+/** Wheel distance per scroll step, in pixels */
+const WHEEL_STEP = 50;
+
+/** Pixels per line for wheel events measured in lines */
+const WHEEL_LINE_HEIGHT = 19;
+
+/** WheelEvent.deltaMode values */
+const DOM_DELTA_LINE = 1;
+const DOM_DELTA_PAGE = 2;
+
+/**
+ * Convert DOM MouseEvent.buttons to an RFB button mask. The DOM puts the
+ * right button in bit 1 and the middle button in bit 2; RFB has them the
+ * other way round.
+ */
+export function domButtonsToMask(buttons: number): number {
+  let mask = 0;
+  if (buttons & 1) mask |= VNCPointerButton.Left;
+  if (buttons & 2) mask |= VNCPointerButton.Right;
+  if (buttons & 4) mask |= VNCPointerButton.Middle;
+  return mask;
+}
+
+/**
+ * Convert a WheelEvent delta to pixels. `pageSize` is the size of a page
+ * along the delta's axis, for wheels that scroll by page.
+ */
+export function wheelDeltaToPixels(delta: number, deltaMode: number, pageSize: number): number {
+  switch (deltaMode) {
+    case DOM_DELTA_LINE:
+      return delta * WHEEL_LINE_HEIGHT;
+    case DOM_DELTA_PAGE:
+      return delta * pageSize;
+    default:
+      return delta;
+  }
+}
+
+/**
+ * Move a locked pointer by the relative motion of a mouse event. Positions
+ * are in framebuffer pixels and stay on the framebuffer; `scale` is the
+ * size of a framebuffer pixel on screen, in CSS pixels.
+ */
+export function moveLockedPointer(
+  point: VNCPoint,
+  movementX: number,
+  movementY: number,
+  scale: number,
+  width: number,
+  height: number
+): VNCPoint {
+  return {
+    x: Math.min(Math.max(point.x + movementX / scale, 0), Math.max(width - 1, 0)),
+    y: Math.min(Math.max(point.y + movementY / scale, 0), Math.max(height - 1, 0))
+  };
+}
+
+/**
+ * Convert a framebuffer position to the canvas coordinates sendPointerEvent
+ * takes. The client divides by its `scale` and rounds down, so this aims at
+ * the middle of the pixel to land on it whatever the rounding.
+ */
+export function framebufferToCanvasPoint(point: VNCPoint, scale: number): VNCPoint {
+  return {
+    x: (Math.floor(point.x) + 0.5) * scale,
+    y: (Math.floor(point.y) + 0.5) * scale
+  };
+}
+
+/**
+ * Collects scroll distance into discrete wheel steps. Trackpads report many
+ * small deltas, and RFB can only send whole clicks of wheel buttons 4-7.
+ */
+export class VNCWheelAccumulator {
+  private step: number;
+  private x: number = 0;
+  private y: number = 0;
+
+  constructor(step: number = WHEEL_STEP) {
+    this.step = step;
+  }
+
+  /**
+   * Add a scroll distance in pixels (positive is down and right) and get
+   * the wheel buttons to click, one entry per step
+   */
+  add(dx: number, dy: number): number[] {
+    const buttons: number[] = [];
+
+    this.y = this.accumulate(this.y, dy);
+    while (Math.abs(this.y) >= this.step) {
+      buttons.push(this.y > 0 ? VNCPointerButton.WheelDown : VNCPointerButton.WheelUp);
+      this.y -= Math.sign(this.y) * this.step;
+    }
+
+    this.x = this.accumulate(this.x, dx);
+    while (Math.abs(this.x) >= this.step) {
+      buttons.push(this.x > 0 ? VNCPointerButton.WheelRight : VNCPointerButton.WheelLeft);
+      this.x -= Math.sign(this.x) * this.step;
+    }
+
+    return buttons;
+  }
+
+  /**
+   * Drop any partial step
+   */
+  reset(): void {
+    this.x = 0;
+    this.y = 0;
+  }
+
+  private accumulate(total: number, delta: number): number {
+    // A change of direction starts over rather than cancelling out first
+    return Math.sign(total) * Math.sign(delta) < 0 ? delta : total + delta;
+  }
+}
@@ -1,4 +1,59 @@
-import { VNCPixelFormat, VNCServerInitMessage } from '../types/vnc';
+import { VNCPixelFormat, VNCPixelFormatPreset, VNCScreen, VNCServerInitMessage } from '../types/vnc';
+
+/**
+ * RFB encoding and pseudo-encoding numbers
+ */
+export const VNCEncoding = {
+  Raw: 0,
+  CopyRect: 1,
+  RRE: 2,
+  CoRRE: 4,
+  Hextile: 5,
+  Tight: 7,
+  ZRLE: 16,
+  TightPNG: -260,
+  /** Compression level 0..9 is CompressLevel0 + level */
+  CompressLevel0: -256,
+  /** JPEG quality level 0..9 is QualityLevel0 + level */
+  QualityLevel0: -32,
+  LastRect: -224,
+  Cursor: -239,
+  DesktopSize: -223,
+  ExtendedDesktopSize: -308,
+  QEMUExtendedKeyEvent: -258,
+  /** 0xC0A1E5CE as a signed 32-bit value */
+  ExtendedClipboard: -1063131698
+} as const;
+
+/**
+ * Extended Clipboard flags: formats in the low bits, actions in the high bits
+ */
+export const VNCClipboardFlag = {
+  Text: 1 << 0,
+  RTF: 1 << 1,
+  HTML: 1 << 2,
+  DIB: 1 << 3,
+  Files: 1 << 4,
+  Caps: 1 << 24,
+  Request: 1 << 25,
+  Peek: 1 << 26,
+  Notify: 1 << 27,
+  Provide: 1 << 28
+} as const;
+
+/**
+ * RFB pointer button mask bits. Wheel scrolling is sent as a press and
+ * release of buttons 4-7.
+ */
+export const VNCPointerButton = {
+  Left: 1 << 0,
+  Middle: 1 << 1,
+  Right: 1 << 2,
+  WheelUp: 1 << 3,
+  WheelDown: 1 << 4,
+  WheelLeft: 1 << 5,
+  WheelRight: 1 << 6
+} as const;
 
 export class VNCProtocolUtils {
   /**
@@ -15,6 +70,32 @@ export class VNCProtocolUtils {
     return new TextDecoder().decode(arr);
   }
 
+  /**
+   * Encode text as ISO 8859-1, as RFB requires for cut text.
+   * Characters outside Latin-1 become '?'; line endings become a lone LF.
+   */
+  static latin1Encode(text: string): Uint8Array {
+    const normalized = text.replace(/\r\n?/g, '\n');
+    const bytes = new Uint8Array(normalized.length);
+    for (let i = 0; i < normalized.length; i++) {
+      const code = normalized.charCodeAt(i);
+      bytes[i] = code > 0xff ? 0x3f : code;
+    }
+    return bytes;
+  }
+
+  /**
+   * Decode ISO 8859-1 bytes. TextDecoder's 'latin1' is really windows-1252,
+   * which remaps 0x80-0x9F, so map bytes to code points directly.
+   */
+  static latin1Decode(bytes: Uint8Array): string {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 0x2000) {
+      text += String.fromCharCode(...bytes.subarray(i, i + 0x2000));
+    }
+    return text;
+  }
+
   /**
    * Read uint8 from buffer at offset
    */
@@ -126,6 +207,24 @@ export class VNCProtocolUtils {
     return buffer;
   }
 
+  /**
+   * Create set encodings message
+   */
+  static createSetEncodings(encodings: number[]): ArrayBuffer {
+    const buffer = new ArrayBuffer(4 + encodings.length * 4);
+    const view = new DataView(buffer);
+    
+    view.setUint8(0, 2); // message type
+    view.setUint8(1, 0); // padding
+    view.setUint16(2, encodings.length, false);
+    
+    encodings.forEach((encoding, i) => {
+      view.setInt32(4 + i * 4, encoding, false);
+    });
+    
+    return buffer;
+  }
+
   /**
    * Create framebuffer update request
    */
@@ -164,6 +263,23 @@ export class VNCProtocolUtils {
     return buffer;
   }
 
+  /**
+   * Create QEMU Extended Key Event message, which carries the key's
+   * scancode alongside its keysym
+   */
+  static createQEMUExtendedKeyEvent(down: boolean, keysym: number, keycode: number): ArrayBuffer {
+    const buffer = new ArrayBuffer(12);
+    const view = new DataView(buffer);
+
+    view.setUint8(0, 255); // message type (QEMU)
+    view.setUint8(1, 0); // submessage type (extended key event)
+    view.setUint16(2, down ? 1 : 0, false);
+    view.setUint32(4, keysym, false);
+    view.setUint32(8, keycode, false);
+
+    return buffer;
+  }
+
   /**
    * Create pointer event message
    */
@@ -179,6 +295,83 @@ export class VNCProtocolUtils {
     return buffer;
   }
 
+  /**
+   * Create client cut text message; `text` must already be Latin-1 bytes
+   */
+  static createClientCutText(text: Uint8Array): ArrayBuffer {
+    const buffer = new ArrayBuffer(8 + text.length);
+    const view = new DataView(buffer);
+
+    view.setUint8(0, 6); // message type
+    view.setUint8(1, 0); // padding
+    view.setUint16(2, 0, false); // padding
+    view.setUint32(4, text.length, false);
+    new Uint8Array(buffer, 8).set(text);
+
+    return buffer;
+  }
+
+  /**
+   * Create an Extended Clipboard ClientCutText message. The length is sent
+   * negated, which is what marks the message as extended.
+   */
+  static createExtendedClipboard(flags: number, payload: Uint8Array = new Uint8Array(0)): ArrayBuffer {
+    const buffer = new ArrayBuffer(12 + payload.length);
+    const view = new DataView(buffer);
+
+    view.setUint8(0, 6); // message type
+    view.setUint8(1, 0); // padding
+    view.setUint16(2, 0, false); // padding
+    view.setInt32(4, -(4 + payload.length), false);
+    view.setUint32(8, flags >>> 0, false);
+    new Uint8Array(buffer, 12).set(payload);
+
+    return buffer;
+  }
+
+  /**
+   * Create SetDesktopSize message (ExtendedDesktopSize extension)
+   */
+  static createSetDesktopSize(width: number, height: number, screens: VNCScreen[]): ArrayBuffer {
+    const buffer = new ArrayBuffer(8 + screens.length * 16);
+    const view = new DataView(buffer);
+
+    view.setUint8(0, 251); // message type
+    view.setUint8(1, 0); // padding
+    view.setUint16(2, width, false);
+    view.setUint16(4, height, false);
+    view.setUint8(6, screens.length);
+    view.setUint8(7, 0); // padding
+
+    screens.forEach((screen, i) => {
+      const offset = 8 + i * 16;
+      view.setUint32(offset, screen.id, false);
+      view.setUint16(offset + 4, screen.x, false);
+      view.setUint16(offset + 6, screen.y, false);
+      view.setUint16(offset + 8, screen.width, false);
+      view.setUint16(offset + 10, screen.height, false);
+      view.setUint32(offset + 12, screen.flags, false);
+    });
+
+    return buffer;
+  }
+
+  /**
+   * Get default encoding preference order (most preferred first)
+   */
+  static getDefaultEncodings(): number[] {
+    return [
+      VNCEncoding.CopyRect,
+      VNCEncoding.Tight,
+      VNCEncoding.TightPNG,
+      VNCEncoding.ZRLE,
+      VNCEncoding.Hextile,
+      VNCEncoding.RRE,
+      VNCEncoding.CoRRE,
+      VNCEncoding.Raw
+    ];
+  }
+
   /**
    * Get default pixel format (32-bit RGBA)
    */
@@ -196,4 +389,45 @@ export class VNCProtocolUtils {
       blueShift: 16
     };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Resolve a pixel format preset, or check a custom format can be decoded
+   */
+  static resolvePixelFormat(format: VNCPixelFormatPreset | VNCPixelFormat): VNCPixelFormat {
+    switch (format) {
+      case 'true-color-32':
+        return this.getDefaultPixelFormat();
+      case 'high-color-16':
+        return {
+          bitsPerPixel: 16,
+          depth: 16,
+          bigEndian: false,
+          trueColor: true,
+          redMax: 31,
+          greenMax: 63,
+          blueMax: 31,
+          redShift: 11,
+          greenShift: 5,
+          blueShift: 0
+        };
+      case 'bgr233-8':
+        return {
+          bitsPerPixel: 8,
+          depth: 8,
+          bigEndian: false,
+          trueColor: true,
+          redMax: 7,
+          greenMax: 7,
+          blueMax: 3,
+          redShift: 0,
+          greenShift: 3,
+          blueShift: 6
+        };
+    }
+
+    if (typeof format !== 'object' || ![8, 16, 32].includes(format.bitsPerPixel)) {
+      throw new Error(`Unsupported pixel format: ${JSON.stringify(format)}`);
+    }
+    return { ...format };
+  }
+}